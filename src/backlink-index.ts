@@ -0,0 +1,104 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { RowRef } from './rljson.ts';
+
+/// Maps rows to the rows linking to them
+///
+/// The index is immutable. add() and remove() return new indexes
+/// sharing all unchanged parts with this index.
+export class BacklinkIndex {
+  // ...........................................................................
+  constructor(private readonly _tables: Rlbacklinks = {}) {}
+
+  // ...........................................................................
+  /// Returns a new index containing the links too
+  add(links: Rllinkage[]): BacklinkIndex {
+    const tables = { ...this._tables };
+    const copiedTables = new Set<string>();
+    const copiedRows = new Set<string>();
+
+    for (const { source, target } of links) {
+      const rows = this._copy(tables, target.table, copiedTables);
+      const key = `${target.table}/${target.hash}`;
+
+      if (!copiedRows.has(key)) {
+        rows[target.hash] = [...(rows[target.hash] ?? [])];
+        copiedRows.add(key);
+      }
+
+      rows[target.hash].push(source);
+    }
+
+    return new BacklinkIndex(tables);
+  }
+
+  // ...........................................................................
+  /// Returns a new index not containing the links anymore
+  remove(links: Rllinkage[]): BacklinkIndex {
+    const tables = { ...this._tables };
+    const copiedTables = new Set<string>();
+
+    for (const { source, target } of links) {
+      if (tables[target.table]?.[target.hash] == null) continue;
+
+      const rows = this._copy(tables, target.table, copiedTables);
+      const remaining = rows[target.hash].filter(
+        (backlink) =>
+          backlink.hash !== source.hash ||
+          backlink.table !== source.table ||
+          backlink.column !== source.column,
+      );
+
+      if (remaining.length > 0) {
+        rows[target.hash] = remaining;
+      } else {
+        delete rows[target.hash];
+      }
+    }
+
+    return new BacklinkIndex(tables);
+  }
+
+  // ...........................................................................
+  /// Returns the rows linking to the row with hash in table
+  referencedBy(table: string, hash: string): Rlbacklink[] {
+    return this._tables[table]?.[hash] ?? [];
+  }
+
+  // ...........................................................................
+  /// Copies the rows of a target table on first write
+  private _copy(
+    tables: Rlbacklinks,
+    table: string,
+    copied: Set<string>,
+  ): Record<string, Rlbacklink[]> {
+    if (!copied.has(table)) {
+      tables[table] = { ...tables[table] };
+      copied.add(table);
+    }
+
+    return tables[table];
+  }
+}
+
+/// A row linking to another row via column
+export interface Rlbacklink {
+  table: string;
+  hash: string;
+  column: string;
+}
+
+/// A link from a source row to a target row
+export interface Rllinkage {
+  source: Rlbacklink;
+  target: RowRef;
+}
+
+/// Target table -> target hash -> rows linking to the target
+export interface Rlbacklinks {
+  [table: string]: Record<string, Rlbacklink[]>;
+}
@@ -0,0 +1,175 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Rljson, Rlmap, Rltables } from './rljson.ts';
+
+/// Builds interlinked rows without knowing their hashes in advance
+///
+/// Rows get ids. Links point to ids using `Builder.ref(id)`:
+///
+/// ```
+/// const rljson = new Builder()
+///   .add('a', { value: 'a', bRef: Builder.ref('b0') })
+///   .add('b', { value: 'b', tagRefs: [Builder.ref('red')] }, 'b0')
+///   .add('tag', { name: 'red' }, 'red')
+///   .build();
+/// ```
+///
+/// build() hashes linked rows before the rows linking to them.
+/// Links can also contain hashes of rows already existing in the base.
+export class Builder {
+  // ...........................................................................
+  /// Creates a builder adding rows to base
+  constructor(private readonly _base: Rljson = Rljson.empty()) {}
+
+  private readonly _rows: BuilderRow[] = [];
+  private readonly _ids = new Map<string, BuilderRow>();
+
+  // ...........................................................................
+  /// Returns a link to the row with id
+  static ref(id: string): RlbuilderRef {
+    return { _ref: id };
+  }
+
+  // ...........................................................................
+  /// Adds a row to table. Other rows can link to it using id.
+  add(table: string, row: Rlmap, id?: string): Builder {
+    if (id != null && this._ids.has(id)) {
+      throw new Error(`Id "${id}" is used twice.`);
+    }
+
+    const entry: BuilderRow = { table, row, id };
+    this._rows.push(entry);
+    if (id != null) {
+      this._ids.set(id, entry);
+    }
+
+    return this;
+  }
+
+  // ...........................................................................
+  /// Returns the hashes of all rows with id.
+  ///
+  /// Throws when ids are not found or when rows link to each other.
+  hashes(): Record<string, string> {
+    const hashed = this._hashAll();
+    return Object.fromEntries(
+      [...this._ids].map(([id, entry]) => [id, hashed.get(entry)!._hash!]),
+    );
+  }
+
+  // ...........................................................................
+  /// Returns base with all rows added.
+  ///
+  /// Throws when ids are not found or when rows link to each other.
+  build(): Rljson {
+    // Linked rows come first
+    const data: Rltables = {};
+    for (const [{ table }, row] of this._hashAll()) {
+      (data[table] ??= { _data: [] })._data.push(row);
+    }
+
+    return this._base.addData(data, { updateHashes: false });
+  }
+
+  // ...........................................................................
+  /// Returns the hashed rows in the order they were hashed
+  private _hashAll(): Map<BuilderRow, Rlmap> {
+    const hashed = new Map<BuilderRow, Rlmap>();
+    for (const entry of this._rows) {
+      this._hash(entry, [], hashed);
+    }
+
+    return hashed;
+  }
+
+  // ...........................................................................
+  /// Hashes the row after all rows it links to.
+  /// path contains the ids of the rows currently being hashed.
+  private _hash(
+    entry: BuilderRow,
+    path: string[],
+    hashed: Map<BuilderRow, Rlmap>,
+  ): string {
+    const existing = hashed.get(entry);
+    if (existing != null) {
+      return existing._hash!;
+    }
+
+    if (entry.id != null && path.includes(entry.id)) {
+      throw new Error(`Cyclic ids: ${[...path, entry.id].join(' -> ')}.`);
+    }
+
+    const { table, row, id } = entry;
+    const childPath = id != null ? [...path, id] : path;
+    const result: Rlmap = {};
+
+    for (const [column, value] of Object.entries(row)) {
+      if (column === '_hash') continue;
+
+      const linkedTable = this._base.linkedTable(table, column);
+      const resolve = (link: any) => {
+        if (!Builder._isRef(link)) return link;
+
+        if (linkedTable == null) {
+          throw new Error(
+            `Column "${column}" of table "${table}" contains a ref but is not a link.`,
+          );
+        }
+
+        const target = this._ids.get(link._ref);
+        if (target == null) {
+          throw new Error(
+            `Unresolved id "${link._ref}" in column "${column}" of table "${table}".`,
+          );
+        }
+
+        if (target.table !== linkedTable) {
+          throw new Error(
+            `Id "${link._ref}" in column "${column}" of table "${table}" is a row of table "${target.table}" instead of "${linkedTable}".`,
+          );
+        }
+
+        return this._hash(target, childPath, hashed);
+      };
+
+      result[column] = Array.isArray(value)
+        ? value.map(resolve)
+        : resolve(value);
+    }
+
+    // Hash a copy to keep nested values of the caller unchanged
+    const hashedRow = this._base.jsonJash.apply(result, {
+      updateExistingHashes: true,
+      throwIfOnWrongHashes: false,
+      inPlace: false,
+    });
+
+    hashed.set(entry, hashedRow);
+    return hashedRow._hash!;
+  }
+
+  // ...........................................................................
+  private static _isRef(value: any): value is RlbuilderRef {
+    return (
+      value != null &&
+      typeof value === 'object' &&
+      typeof value._ref === 'string'
+    );
+  }
+}
+
+/// A link to the row with the id
+export interface RlbuilderRef {
+  _ref: string;
+}
+
+/// A row added to the builder
+interface BuilderRow {
+  table: string;
+  row: Rlmap;
+  id?: string;
+}
@@ -0,0 +1,294 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Query } from './query.ts';
+import { Rlmap } from './rljson.ts';
+
+/// A secondary index mapping the values of a column to row hashes
+///
+/// Indexes are immutable. add() and remove() return new indexes.
+/// Only primitive values are indexed. Rows with objects or arrays
+/// in the column are not part of the index.
+export abstract class ColumnIndex {
+  // ...........................................................................
+  constructor(public readonly column: string) {}
+
+  // ...........................................................................
+  /// Creates an index of the given type for the rows
+  static create(type: RlindexType, column: string, rows: Rlmap[]): ColumnIndex {
+    const index =
+      type === 'sorted'
+        ? new SortedIndex(column, [])
+        : new HashIndex(column, new Map());
+
+    return index.add(rows);
+  }
+
+  // ...........................................................................
+  /// The type of the index
+  abstract get type(): RlindexType;
+
+  // ...........................................................................
+  /// Returns a new index containing the rows too
+  abstract add(rows: Rlmap[]): ColumnIndex;
+
+  // ...........................................................................
+  /// Returns a new index not containing the rows anymore
+  abstract remove(rows: Rlmap[]): ColumnIndex;
+
+  // ...........................................................................
+  /// Returns the hashes of all rows that might match the condition.
+  /// Returns undefined when the index can't be used for the condition.
+  abstract lookup(condition: any): string[] | undefined;
+
+  // ...........................................................................
+  /// Returns the value of a row as stored in the index.
+  /// Returns undefined for values that are not indexed.
+  static key(value: any): string | number | boolean | null | undefined {
+    if (value == null) {
+      return null;
+    }
+
+    return typeof value === 'object' ? undefined : value;
+  }
+
+  // ...........................................................................
+  /// Returns the values of an equality or _in condition.
+  /// Returns undefined when the condition has no such values.
+  protected static _equalValues(condition: any): any[] | undefined {
+    if (!Query.isOperator(condition)) {
+      return [condition];
+    }
+
+    if ('_eq' in condition) {
+      return [condition._eq];
+    }
+
+    return condition._in;
+  }
+}
+
+// #############################################################################
+/// An index for equality and _in conditions
+export class HashIndex extends ColumnIndex {
+  // ...........................................................................
+  constructor(
+    column: string,
+    private readonly _buckets: Map<any, string[]>,
+  ) {
+    super(column);
+  }
+
+  // ...........................................................................
+  get type(): RlindexType {
+    return 'hash';
+  }
+
+  // ...........................................................................
+  add(rows: Rlmap[]): HashIndex {
+    const buckets = new Map(this._buckets);
+
+    // Buckets shared with this index are copied on first write
+    const copied = new Set<any>();
+
+    for (const row of rows) {
+      const key = ColumnIndex.key(row[this.column]);
+      if (key === undefined) continue;
+
+      if (!copied.has(key)) {
+        buckets.set(key, [...(buckets.get(key) ?? [])]);
+        copied.add(key);
+      }
+
+      buckets.get(key)!.push(row._hash!);
+    }
+
+    return new HashIndex(this.column, buckets);
+  }
+
+  // ...........................................................................
+  remove(rows: Rlmap[]): HashIndex {
+    // Group removed hashes by key
+    const removed = new Map<any, Set<string>>();
+    for (const row of rows) {
+      const key = ColumnIndex.key(row[this.column]);
+      if (!this._buckets.has(key)) continue;
+
+      if (!removed.has(key)) {
+        removed.set(key, new Set());
+      }
+      removed.get(key)!.add(row._hash!);
+    }
+
+    const buckets = new Map(this._buckets);
+    for (const [key, hashes] of removed) {
+      const remaining = buckets.get(key)!.filter((hash) => !hashes.has(hash));
+      if (remaining.length > 0) {
+        buckets.set(key, remaining);
+      } else {
+        buckets.delete(key);
+      }
+    }
+
+    return new HashIndex(this.column, buckets);
+  }
+
+  // ...........................................................................
+  lookup(condition: any): string[] | undefined {
+    const values = ColumnIndex._equalValues(condition);
+    const keys = values?.map((value) => ColumnIndex.key(value));
+    if (keys == null || keys.includes(undefined)) {
+      return undefined;
+    }
+
+    const result = new Set<string>();
+    for (const key of keys) {
+      for (const hash of this._buckets.get(key) ?? []) {
+        result.add(hash);
+      }
+    }
+
+    return [...result];
+  }
+}
+
+// #############################################################################
+/// An index for equality, _in and range conditions.
+///
+/// Values are expected to be of the same type, e.g. numbers or strings.
+export class SortedIndex extends ColumnIndex {
+  // ...........................................................................
+  constructor(
+    column: string,
+    private readonly _entries: SortedIndexEntry[],
+  ) {
+    super(column);
+  }
+
+  // ...........................................................................
+  get type(): RlindexType {
+    return 'sorted';
+  }
+
+  // ...........................................................................
+  add(rows: Rlmap[]): SortedIndex {
+    const added: SortedIndexEntry[] = [];
+    for (const row of rows) {
+      const key = ColumnIndex.key(row[this.column]);
+      if (key == null) continue;
+      added.push([key, row._hash!]);
+    }
+
+    added.sort((a, b) => Query.compare(a[0], b[0]));
+
+    // Merge both sorted lists
+    const entries: SortedIndexEntry[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < this._entries.length || j < added.length) {
+      const takeExisting =
+        j >= added.length ||
+        (i < this._entries.length &&
+          Query.compare(this._entries[i][0], added[j][0]) <= 0);
+
+      entries.push(takeExisting ? this._entries[i++] : added[j++]);
+    }
+
+    return new SortedIndex(this.column, entries);
+  }
+
+  // ...........................................................................
+  remove(rows: Rlmap[]): SortedIndex {
+    const removed = new Set(rows.map((row) => row._hash));
+    return new SortedIndex(
+      this.column,
+      this._entries.filter(([, hash]) => !removed.has(hash)),
+    );
+  }
+
+  // ...........................................................................
+  lookup(condition: any): string[] | undefined {
+    // Range conditions
+    if (
+      Query.isOperator(condition) &&
+      !('_eq' in condition) &&
+      !('_in' in condition)
+    ) {
+      return this._range(condition);
+    }
+
+    // Equality conditions
+    const values = ColumnIndex._equalValues(condition);
+    const keys = values?.map((value) => ColumnIndex.key(value));
+    if (keys == null || keys.some((key) => key == null)) {
+      return undefined;
+    }
+
+    const result = new Set<string>();
+    for (const key of keys) {
+      const start = this._lowerBound(key, false);
+      const end = this._lowerBound(key, true);
+      for (let i = start; i < end; i++) {
+        result.add(this._entries[i][1]);
+      }
+    }
+
+    return [...result];
+  }
+
+  // ...........................................................................
+  private _range(condition: any): string[] | undefined {
+    const { _gt, _gte, _lt, _lte } = condition;
+    const bounds = [_gt, _gte, _lt, _lte].filter((bound) => bound != null);
+    if (
+      bounds.length === 0 ||
+      bounds.some((bound) => typeof bound === 'object')
+    ) {
+      return undefined;
+    }
+
+    let start = 0;
+    let end = this._entries.length;
+
+    if (_gte != null) start = Math.max(start, this._lowerBound(_gte, false));
+    if (_gt != null) start = Math.max(start, this._lowerBound(_gt, true));
+    if (_lte != null) end = Math.min(end, this._lowerBound(_lte, true));
+    if (_lt != null) end = Math.min(end, this._lowerBound(_lt, false));
+
+    return this._entries.slice(start, Math.max(start, end)).map(([, h]) => h);
+  }
+
+  // ...........................................................................
+  /// Returns the index of the first entry greater or equal to value.
+  /// With after set to true, the first entry greater than value.
+  private _lowerBound(value: any, after: boolean): number {
+    let low = 0;
+    let high = this._entries.length;
+
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      const result = Query.compare(this._entries[mid][0], value);
+      if (result < 0 || (after && result === 0)) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+}
+
+/// A value and the hash of the row containing it
+type SortedIndexEntry = [any, string];
+
+/// Hash indexes serve equality, sorted indexes serve ranges too
+export type RlindexType = 'hash' | 'sorted';
+
+/// The indexes of all tables and columns
+export interface Rlindexes {
+  [table: string]: { [column: string]: ColumnIndex };
+}
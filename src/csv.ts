@@ -0,0 +1,290 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Rlwhere } from './query.ts';
+import { Rljson, Rlmap } from './rljson.ts';
+import { RlcolumnType } from './schema.ts';
+
+/// Exports rljson tables to CSV and imports CSV into tables
+///
+/// The first line of a CSV file contains the column names.
+/// Fields containing delimiters, quotes or line breaks are quoted.
+/// Empty fields are exported for null values and imported as missing.
+/// Blank lines are skipped.
+export class Csv {
+  // ...........................................................................
+  /// Returns the rows of a table as CSV.
+  ///
+  /// columns can contain paths following links, e.g. `bRef/value`.
+  /// Link columns without a path are exported as hashes.
+  /// By default the declared columns or all keys of the rows are exported.
+  /// where selects the exported rows like in `items()`.
+  static export(
+    rljson: Rljson,
+    table: string,
+    options: Partial<CsvExportOptions> = {},
+  ): string {
+    const { delimiter = ',' } = options;
+    const columns = options.columns ?? Csv._columns(rljson, table);
+
+    // Only paths follow links
+    const paths = columns.filter((column) => column.includes('/'));
+    const selected = rljson.select(table, ['_hash', ...paths], options.where);
+    const rows = selected.map(([hash, ...values]) => {
+      const row = rljson.row(table, hash);
+      return columns.map((column) =>
+        column.includes('/') ? values[paths.indexOf(column)] : row[column],
+      );
+    });
+
+    const lines = [columns, ...rows].map((fields) => {
+      const line = fields
+        .map((field) => Csv._format(field, delimiter))
+        .join(delimiter);
+
+      // Blank lines would be skipped on import
+      return line === '' ? '""' : line;
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  // ...........................................................................
+  /// Returns a new instance with the CSV rows added to the table.
+  ///
+  /// Values are converted into the types given in options, into the
+  /// declared types of the table or into booleans, numbers or strings.
+  /// Columns ending with Ref or Refs are imported as links.
+  static import(
+    rljson: Rljson,
+    table: string,
+    csv: string,
+    options: Partial<CsvImportOptions> = {},
+  ): Rljson {
+    const { delimiter = ',' } = options;
+    const [header, ...records] = Csv.parse(csv, delimiter);
+
+    if (header == null) {
+      throw new Error('CSV is empty.');
+    }
+
+    const declaredColumns = rljson.data[table]?.['_columns'] ?? {};
+    const types = header.fields.map(
+      (column) =>
+        options.types?.[column] ??
+        declaredColumns[column]?.type ??
+        (column.endsWith('Refs')
+          ? 'refs'
+          : column.endsWith('Ref')
+            ? 'ref'
+            : 'auto'),
+    );
+
+    const rows: Rlmap[] = records.map(({ line, fields }) => {
+      if (fields.length !== header.fields.length) {
+        throw new Error(
+          `CSV line ${line}: Expected ${header.fields.length} fields but found ${fields.length}.`,
+        );
+      }
+
+      const row: Rlmap = {};
+      fields.forEach((field, i) => {
+        if (field === '') return;
+        row[header.fields[i]] = Csv._coerce(field, types[i], {
+          line,
+          column: header.fields[i],
+        });
+      });
+
+      return row;
+    });
+
+    return rljson.addData({ [table]: { _data: rows } });
+  }
+
+  // ...........................................................................
+  /// Splits CSV into records. Each record knows the line it starts on.
+  static parse(csv: string, delimiter = ','): CsvRecord[] {
+    const records: CsvRecord[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+    let fieldStarted = false;
+
+    const endRecord = () => {
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+      fields = [];
+      field = '';
+      fieldStarted = false;
+    };
+
+    for (let i = 0; i < csv.length; i++) {
+      const char = csv[i];
+
+      if (quoted) {
+        if (char === '"' && csv[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === '\n') line++;
+          field += char;
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          if (fieldStarted) {
+            throw new Error(
+              `CSV line ${line}: Quotes must enclose the complete field.`,
+            );
+          }
+          quoted = true;
+          fieldStarted = true;
+          break;
+        case delimiter:
+          fields.push(field);
+          field = '';
+          fieldStarted = false;
+          break;
+        case '\r':
+          break;
+        case '\n':
+          // Skip blank lines
+          if (fieldStarted || fields.length > 0) {
+            endRecord();
+          }
+          line++;
+          recordLine = line;
+          break;
+        default:
+          field += char;
+          fieldStarted = true;
+      }
+    }
+
+    if (quoted) {
+      throw new Error(`CSV line ${recordLine}: Unterminated quoted field.`);
+    }
+
+    // Last line without line break
+    if (fieldStarted || field !== '' || fields.length > 0) {
+      endRecord();
+    }
+
+    return records;
+  }
+
+  // ...........................................................................
+  /// Returns the declared columns or all keys of the rows
+  private static _columns(rljson: Rljson, table: string): string[] {
+    const { _columns, _data } = rljson.table(table);
+    const rows = (_columns != null ? [_columns] : _data) as Rlmap[];
+    const keys = new Set<string>();
+
+    for (const row of rows) {
+      for (const key of Object.keys(row)) {
+        if (key !== '_hash') keys.add(key);
+      }
+    }
+
+    return [...keys];
+  }
+
+  // ...........................................................................
+  private static _format(value: any, delimiter: string): string {
+    if (value == null) {
+      return '';
+    }
+
+    const text = typeof value === 'object' ? JSON.stringify(value) : `${value}`;
+    const needsQuotes =
+      text.includes(delimiter) ||
+      text.includes('"') ||
+      text.includes('\n') ||
+      text.includes('\r');
+
+    return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  // ...........................................................................
+  private static _coerce(
+    field: string,
+    type: CsvType,
+    { line, column }: { line: number; column: string },
+  ): any {
+    const fail = (): never => {
+      throw new Error(
+        `CSV line ${line}: Invalid ${type} "${field}" in column "${column}".`,
+      );
+    };
+
+    switch (type) {
+      case 'string':
+      case 'ref':
+        return field;
+      case 'number': {
+        const number = Number(field);
+        return field.trim() === '' || !isFinite(number) ? fail() : number;
+      }
+      case 'boolean':
+        return field === 'true' ? true : field === 'false' ? false : fail();
+      case 'json':
+      case 'refs':
+        try {
+          return JSON.parse(field);
+        } catch {
+          return fail();
+        }
+      default:
+        return Csv._infer(field);
+    }
+  }
+
+  // ...........................................................................
+  /// Turns true, false and finite decimal numbers into booleans and
+  /// numbers. Numbers with leading zeros like 007 are kept as strings.
+  private static _infer(field: string): any {
+    if (field === 'true' || field === 'false') {
+      return field === 'true';
+    }
+
+    if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(field)) {
+      const number = Number(field);
+      if (isFinite(number)) {
+        return number;
+      }
+    }
+
+    return field;
+  }
+}
+
+/// The types CSV values can be converted to.
+/// auto converts booleans and numbers and keeps everything else.
+export type CsvType = RlcolumnType | 'auto';
+
+/// A record of a CSV file
+export interface CsvRecord {
+  line: number;
+  fields: string[];
+}
+
+export interface CsvExportOptions {
+  columns: string[];
+  where: Rlwhere;
+  delimiter: string;
+}
+
+export interface CsvImportOptions {
+  types: Record<string, CsvType>;
+  delimiter: string;
+}
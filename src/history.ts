@@ -0,0 +1,316 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { AddDataOptions, Rljson, Rlmap, Rlpatch, Rltables } from './rljson.ts';
+
+/// Records versions of Rljson data like git does
+///
+/// Each commit stores the root hash of a version, the root hash of its
+/// parent, a timestamp and a message:
+///
+/// ```
+/// const history = new History();
+/// history.addData({ person: { _data: [{ name: 'Ann' }] } }, 'Add Ann');
+/// history.addData({ person: { _data: [{ name: 'Bob' }] } }, 'Add Bob');
+///
+/// history.log(); // Add Bob, Add Ann
+/// history.checkout(history.log()[1].hash); // Data with Ann only
+/// ```
+///
+/// Versions share unchanged tables and rows with their predecessors.
+/// toJson() writes each row only once, no matter how many versions
+/// contain it, and each commit only as changes against its parent.
+export class History {
+  // ...........................................................................
+  private readonly _commits: HistoryCommit[] = [];
+  private _head?: HistoryCommit;
+
+  // ...........................................................................
+  /// Returns the version checked out or committed last
+  get head(): Rljson {
+    return this._head?.rljson ?? Rljson.empty();
+  }
+
+  // ...........................................................................
+  /// Records rljson as child of head and makes it the new head.
+  ///
+  /// Returns the commit. When rljson has the root hash of head, nothing is
+  /// recorded and the commit of head is returned.
+  commit(
+    rljson: Rljson,
+    message: string,
+    options: Partial<CommitOptions> = {},
+  ): Rlcommit {
+    const { timestamp = Date.now() } = options;
+
+    const hash = rljson.data._hash as string | undefined;
+    if (hash == null) {
+      throw new Error('Empty data cannot be committed.');
+    }
+
+    if (this._head?.commit.hash === hash) {
+      return this._head.commit;
+    }
+
+    const commit: Rlcommit = {
+      hash,
+      parent: this._head?.commit.hash,
+      timestamp,
+      message,
+    };
+
+    this._head = { commit, rljson, parent: this._head };
+    this._commits.push(this._head);
+    return commit;
+  }
+
+  // ...........................................................................
+  /// Adds data to head and commits the result
+  addData(
+    data: Rltables,
+    message: string,
+    options: Partial<AddDataOptions & CommitOptions> = {},
+  ): Rlcommit {
+    return this.commit(this.head.addData(data, options), message, options);
+  }
+
+  // ...........................................................................
+  /// Returns the commits leading to head, newest first
+  log(): Rlcommit[] {
+    const result: Rlcommit[] = [];
+    for (let c = this._head; c != null; c = c.parent) {
+      result.push(c.commit);
+    }
+
+    return result;
+  }
+
+  // ...........................................................................
+  /// Makes the version with the root hash the head and returns it.
+  ///
+  /// Later commits use this version as parent. Throws when no commit
+  /// with the root hash exists.
+  checkout(hash: string): Rljson {
+    for (let i = this._commits.length - 1; i >= 0; i--) {
+      const commit = this._commits[i];
+      if (commit.commit.hash === hash) {
+        this._head = commit;
+        return commit.rljson;
+      }
+    }
+
+    throw new Error(`Commit "${hash}" not found.`);
+  }
+
+  // ...........................................................................
+  /// Returns all commits as JSON.
+  ///
+  /// Rows are stored once in rows. Commits only contain the tables changed
+  /// against their parent, i.e. their headers and the hashes of added and
+  /// removed rows.
+  toJson(): RlhistoryJson {
+    const rows: Record<string, Record<string, Rlmap>> = {};
+    const commits = this._commits.map(({ commit, rljson, parent }) => {
+      const base = parent?.rljson ?? Rljson.empty();
+      const diff = Rljson.diff(base, rljson);
+      const tables: Record<string, RlhistoryTable> = {};
+
+      for (const [table, { addedRows, removedRows }] of Object.entries(
+        diff.tables,
+      )) {
+        if (diff.removedTables.includes(table)) continue;
+
+        const tableRows = (rows[table] ??= {});
+        for (const hash of addedRows) {
+          tableRows[hash] = rljson.row(table, hash);
+        }
+
+        const { _data, _hash, ...header } = rljson.table(table);
+        const order = (_data as Rlmap[]).map((row) => row._hash!);
+        const appended = History._order(base, table, removedRows, addedRows);
+
+        tables[table] = { header, addedRows, removedRows };
+        if (order.some((hash, i) => hash !== appended[i])) {
+          tables[table].order = order;
+        }
+      }
+
+      return {
+        ...commit,
+        parentIndex: parent ? this._commits.indexOf(parent) : undefined,
+        removedTables: diff.removedTables,
+        tables,
+      };
+    });
+
+    return {
+      rows,
+      commits,
+      headIndex: this._head ? this._commits.indexOf(this._head) : undefined,
+    };
+  }
+
+  // ...........................................................................
+  /// Restores a history written by toJson().
+  ///
+  /// Each version is created from its parent by applying the changes.
+  /// Versions therefore share unchanged tables and rows. Added rows are
+  /// hashed again. Throws when a hash is wrong or when the data of a
+  /// commit does not have its root hash.
+  static fromJson(json: RlhistoryJson): History {
+    const history = new History();
+
+    for (const {
+      tables,
+      removedTables,
+      parentIndex,
+      ...commit
+    } of json.commits) {
+      const parent =
+        parentIndex != null ? history._commits[parentIndex] : undefined;
+      const base = parent?.rljson ?? Rljson.empty();
+
+      const rljson = base.applyPatch({
+        baseHash: base.data._hash,
+        resultHash: commit.hash,
+        ...History._changes(json, base, removedTables, tables),
+      });
+
+      history._commits.push({ commit, rljson, parent });
+    }
+
+    if (json.headIndex != null) {
+      history._head = history._commits[json.headIndex];
+    }
+
+    return history;
+  }
+
+  // ...........................................................................
+  /// Returns the changes turning base into the version of a commit
+  private static _changes(
+    json: RlhistoryJson,
+    base: Rljson,
+    removedTables: string[],
+    tables: Record<string, RlhistoryTable>,
+  ): Omit<Rlpatch, 'baseHash' | 'resultHash'> {
+    const patch: Omit<Rlpatch, 'baseHash' | 'resultHash'> = {
+      createdTables: {},
+      changedTables: {},
+      removedTables,
+      addedRows: {},
+      removedRows: {},
+    };
+
+    const row = (table: string, hash: string) => {
+      const result = json.rows[table]?.[hash];
+      if (result == null) {
+        throw new Error(`Row "${hash}" of table "${table}" not found.`);
+      }
+
+      return result;
+    };
+
+    for (const [
+      table,
+      { header, addedRows, removedRows, order },
+    ] of Object.entries(tables)) {
+      patch.addedRows[table] = addedRows.map((hash) => row(table, hash));
+
+      if (!base.hasTable(table)) {
+        patch.createdTables[table] = header;
+        continue;
+      }
+
+      patch.changedTables[table] = {
+        ...header,
+        _data: order ?? History._order(base, table, removedRows, addedRows),
+      };
+      patch.removedRows[table] = removedRows;
+    }
+
+    return patch;
+  }
+
+  // ...........................................................................
+  /// Returns the row hashes of a table when the removed rows are removed
+  /// from base and the added rows are appended
+  private static _order(
+    base: Rljson,
+    table: string,
+    removedRows: string[],
+    addedRows: string[],
+  ): string[] {
+    const removed = new Set(removedRows);
+    const kept = base.hasTable(table)
+      ? (base.table(table)._data as Rlmap[])
+          .map((row) => row._hash!)
+          .filter((hash) => !removed.has(hash))
+      : [];
+
+    return [...kept, ...addedRows];
+  }
+}
+
+/// A recorded version
+export interface Rlcommit {
+  /// The root hash of the version
+  hash: string;
+
+  /// The root hash of the previous version
+  parent?: string;
+
+  /// Milliseconds since 1970
+  timestamp: number;
+
+  message: string;
+}
+
+/// Options for History.commit()
+export interface CommitOptions {
+  /// The time of the commit. Default is now.
+  timestamp: number;
+}
+
+/// A history written by History.toJson()
+export interface RlhistoryJson {
+  /// Rows by table and hash
+  rows: Record<string, Record<string, Rlmap>>;
+
+  /// Commits in the order they were recorded.
+  /// Tables contain the changes against the parent commit.
+  commits: (Rlcommit & {
+    parentIndex?: number;
+    removedTables: string[];
+    tables: Record<string, RlhistoryTable>;
+  })[];
+
+  /// The index of the head in commits
+  headIndex?: number;
+}
+
+/// A table created or changed by a commit
+export interface RlhistoryTable {
+  /// The table without _data, e.g. its _columns
+  header: Rlmap;
+
+  /// The hashes of the rows added to the table
+  addedRows: string[];
+
+  /// The hashes of the rows removed from the table
+  removedRows: string[];
+
+  /// The hashes of all rows in their order. Only written when the order
+  /// differs from the rows of the parent followed by the added rows.
+  order?: string[];
+}
+
+/// A commit and its version
+interface HistoryCommit {
+  commit: Rlcommit;
+  rljson: Rljson;
+  parent?: HistoryCommit;
+}
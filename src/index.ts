@@ -5,3 +5,19 @@
 // found in the LICENSE file in the root of this package.
 
 export { Rljson } from './rljson.ts';
+export { Schema } from './schema.ts';
+export { Query } from './query.ts';
+export { ColumnIndex, HashIndex, SortedIndex } from './column-index.ts';
+export { BacklinkIndex } from './backlink-index.ts';
+export { Subscriptions } from './subscriptions.ts';
+export { Sync } from './sync.ts';
+export { Transaction } from './transaction.ts';
+export { History } from './history.ts';
+export { Sqlite } from './sqlite.ts';
+export { Csv } from './csv.ts';
+export { Ndjson } from './ndjson.ts';
+export { Normalizer } from './normalizer.ts';
+export { Builder } from './builder.ts';
+export { TypeGenerator } from './type-generator.ts';
+export { JsonSchema } from './json-schema.ts';
+export type { Ref, Refs } from './types.ts';
@@ -0,0 +1,217 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Rljson } from './rljson.ts';
+import { RlobservedColumn, TypeGenerator } from './type-generator.ts';
+
+/// Exports JSON Schema documents describing rljson data and validates
+/// JSON against them
+///
+/// The schema describes the tables, their _data arrays and the rows.
+/// Columns get the types found by TypeGenerator.describe(). Links are
+/// strings, lists of links arrays of strings:
+///
+/// ```
+/// const schema = JsonSchema.generate(rljson);
+/// JsonSchema.check(schema, json); // Throws when json is invalid
+/// const received = Rljson.fromJson(json);
+/// ```
+///
+/// Validation supports the keywords used by generated schemas:
+/// type, properties, required, additionalProperties and items.
+/// Errors have JSON pointer paths like `/person/_data/3/age`
+/// naming table, row index and column.
+export class JsonSchema {
+  // ...........................................................................
+  /// The JSON Schema dialect of generated schemas
+  static readonly dialect = 'https://json-schema.org/draft/2020-12/schema';
+
+  // ...........................................................................
+  /// Returns a JSON Schema describing the tables of rljson.
+  ///
+  /// Other tables and unknown columns are not allowed.
+  static generate(rljson: Rljson): RljsonSchema {
+    const tables: Record<string, RljsonSchema> = {};
+
+    for (const [table, { columns }] of Object.entries(
+      TypeGenerator.describe(rljson),
+    )) {
+      const properties: Record<string, RljsonSchema> = {};
+      const required: string[] = [];
+      for (const [name, column] of Object.entries(columns)) {
+        properties[name] = JsonSchema._column(column);
+        if (!column.optional) {
+          required.push(name);
+        }
+      }
+
+      properties['_hash'] = { type: 'string' };
+
+      tables[table] = {
+        type: 'object',
+        properties: {
+          _hash: { type: 'string' },
+          _columns: { type: 'object' },
+          _data: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties,
+              required,
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ['_data'],
+        additionalProperties: false,
+      };
+    }
+
+    return {
+      $schema: JsonSchema.dialect,
+      type: 'object',
+      properties: { _hash: { type: 'string' }, ...tables },
+      additionalProperties: false,
+    };
+  }
+
+  // ...........................................................................
+  /// Returns all errors found when validating json against schema
+  static validate(schema: RljsonSchema, json: any): RljsonSchemaError[] {
+    const errors: RljsonSchemaError[] = [];
+    JsonSchema._validate(schema, json, '', errors);
+    return errors;
+  }
+
+  // ...........................................................................
+  /// Throws if json does not match the schema.
+  /// The message lists all errors.
+  static check(schema: RljsonSchema, json: any): void {
+    const errors = JsonSchema.validate(schema, json);
+    if (errors.length > 0) {
+      throw new Error(
+        [
+          'JSON does not match the schema:',
+          ...errors.map(({ path, message }) => `  ${path || '/'}: ${message}`),
+        ].join('\n'),
+      );
+    }
+  }
+
+  // ...........................................................................
+  /// Returns the schema of a column
+  private static _column({ types }: RlobservedColumn): RljsonSchema {
+    const jsonTypes = [
+      ...new Set(
+        types.map((type) =>
+          type === 'ref' ? 'string' : type === 'refs' ? 'array' : type,
+        ),
+      ),
+    ] as RljsonSchemaType[];
+
+    const result: RljsonSchema = {
+      type: jsonTypes.length === 1 ? jsonTypes[0] : jsonTypes,
+    };
+
+    if (types.includes('refs')) {
+      result.items = { type: 'string' };
+    }
+
+    return result;
+  }
+
+  // ...........................................................................
+  private static _validate(
+    schema: RljsonSchema,
+    value: any,
+    path: string,
+    errors: RljsonSchemaError[],
+  ): void {
+    // Check type
+    if (schema.type != null) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      const type = JsonSchema._type(value);
+      const matches = types.some(
+        (t) => t === type || (t === 'number' && type === 'integer'),
+      );
+
+      if (!matches) {
+        errors.push({
+          path,
+          message: `Must be of type ${types.map((t) => `"${t}"`).join(' or ')}.`,
+        });
+        return;
+      }
+    }
+
+    // Check arrays
+    if (Array.isArray(value)) {
+      if (schema.items != null) {
+        for (let i = 0; i < value.length; i++) {
+          JsonSchema._validate(schema.items, value[i], `${path}/${i}`, errors);
+        }
+      }
+      return;
+    }
+
+    if (value == null || typeof value !== 'object') {
+      return;
+    }
+
+    // Check objects
+    for (const name of schema.required ?? []) {
+      if (!(name in value)) {
+        errors.push({ path, message: `Property "${name}" is missing.` });
+      }
+    }
+
+    for (const [name, item] of Object.entries(value)) {
+      const itemPath = `${path}/${JsonSchema._escape(name)}`;
+      const itemSchema = schema.properties?.[name];
+      if (itemSchema != null) {
+        JsonSchema._validate(itemSchema, item, itemPath, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: itemPath, message: 'Property is not allowed.' });
+      }
+    }
+  }
+
+  // ...........................................................................
+  /// Returns the JSON Schema type of a value
+  private static _type(value: any): RljsonSchemaType {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (Number.isInteger(value)) return 'integer';
+    return typeof value as RljsonSchemaType;
+  }
+
+  // ...........................................................................
+  /// Escapes a key for JSON pointers
+  private static _escape(key: string): string {
+    return key.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+}
+
+/// The types of JSON Schema
+export type RljsonSchemaType =
+  'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/// The part of JSON Schema used to describe rljson data
+export interface RljsonSchema {
+  $schema?: string;
+  type?: RljsonSchemaType | RljsonSchemaType[];
+  properties?: Record<string, RljsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: RljsonSchema;
+}
+
+/// An error found while validating JSON against a schema
+export interface RljsonSchemaError {
+  /// JSON pointer to the invalid value, e.g. `/person/_data/3/age`
+  path: string;
+  message: string;
+}
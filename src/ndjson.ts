@@ -0,0 +1,171 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import type { Writable } from 'node:stream';
+
+import { Rljson, Rlmap, Rltables } from './rljson.ts';
+
+/// Reads and writes Rljson as newline delimited JSON
+///
+/// Each line contains one JSON object tagged with its table.
+/// A header line starts each table, followed by one line per row:
+///
+/// ```
+/// {"table":"people","header":{"_columns":{"name":{"type":"string"}}}}
+/// {"table":"people","row":{"name":"Ann","_hash":"..."}}
+/// ```
+///
+/// Neither the reader nor the writer keeps the complete file in memory.
+export class Ndjson {
+  // ...........................................................................
+  /// Returns the lines of rljson one by one. Each line ends with \n.
+  static *lines(rljson: Rljson): Generator<string> {
+    for (const table of Object.keys(rljson.dataIndexed)) {
+      const { _data, _hash, ...header } = rljson.table(table);
+      yield JSON.stringify({ table, header }) + '\n';
+
+      for (const row of _data as Rlmap[]) {
+        yield JSON.stringify({ table, row }) + '\n';
+      }
+    }
+  }
+
+  // ...........................................................................
+  /// Writes rljson into a Node stream, e.g. `fs.createWriteStream()`.
+  ///
+  /// Waits for the stream to drain when its buffer is full.
+  /// Rejects when the stream fails or is closed before it drains.
+  /// The stream is not ended.
+  static async write(rljson: Rljson, stream: Writable): Promise<void> {
+    for (const line of Ndjson.lines(rljson)) {
+      if (!stream.write(line)) {
+        await Ndjson._drain(stream);
+      }
+    }
+  }
+
+  // ...........................................................................
+  /// Reads lines written by lines() or write().
+  ///
+  /// source delivers chunks of text or bytes, e.g. `fs.createReadStream()`.
+  /// Chunks don't need to end at line breaks. The rows are collected per
+  /// table and added to the result at once.
+  ///
+  /// Missing row hashes are calculated. Throws on wrong row hashes.
+  static async read(
+    source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+  ): Promise<Rljson> {
+    const decoder = new TextDecoder();
+    const rljson = Rljson.empty();
+
+    const tables: Rltables = {};
+    let lineNumber = 0;
+    let rest = '';
+
+    const readLine = (line: string) => {
+      lineNumber++;
+      if (line.trim() === '') return;
+
+      const { table, header, row } = Ndjson._parse(line, lineNumber);
+
+      if (header != null) {
+        tables[table] = { ...header, _data: tables[table]?._data ?? [] };
+        return;
+      }
+
+      tables[table] ??= { _data: [] };
+      tables[table]._data.push(Ndjson._hash(rljson, row!, lineNumber));
+    };
+
+    for await (const chunk of source) {
+      const text =
+        typeof chunk === 'string'
+          ? chunk
+          : decoder.decode(chunk, { stream: true });
+
+      const lines = (rest + text).split('\n');
+      rest = lines.pop()!;
+      lines.forEach(readLine);
+    }
+
+    readLine(rest + decoder.decode());
+
+    return rljson.addData(tables, { updateHashes: false });
+  }
+
+  // ...........................................................................
+  private static _drain(stream: Writable): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (stream.destroyed) {
+        reject(stream.errored ?? new Error('Stream is destroyed.'));
+        return;
+      }
+
+      const done = (error?: Error | null) => {
+        stream.off('drain', onDrain);
+        stream.off('error', onError);
+        stream.off('close', onClose);
+        if (error != null) reject(error);
+        else resolve();
+      };
+
+      const onDrain = () => done();
+      const onError = (error: Error) => done(error);
+      const onClose = () =>
+        done(stream.errored ?? new Error('Stream was closed before draining.'));
+
+      stream.on('drain', onDrain);
+      stream.on('error', onError);
+      stream.on('close', onClose);
+    });
+  }
+
+  // ...........................................................................
+  /// Hashes a parsed row. Throws when the row has a wrong hash.
+  private static _hash(rljson: Rljson, row: Rlmap, lineNumber: number): Rlmap {
+    try {
+      return rljson.jsonJash.apply(row, {
+        inPlace: true,
+        updateExistingHashes: false,
+        throwIfOnWrongHashes: true,
+      });
+    } catch (error) {
+      throw new Error(`NDJSON line ${lineNumber}: ${(error as Error).message}`);
+    }
+  }
+
+  // ...........................................................................
+  private static _parse(line: string, lineNumber: number): NdjsonLine {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`NDJSON line ${lineNumber}: Invalid JSON.`);
+    }
+
+    if (typeof parsed?.table !== 'string') {
+      throw new Error(`NDJSON line ${lineNumber}: Missing "table".`);
+    }
+
+    const isObject = (value: any) =>
+      value != null && typeof value === 'object' && !Array.isArray(value);
+
+    if (!isObject(parsed.header) && !isObject(parsed.row)) {
+      throw new Error(
+        `NDJSON line ${lineNumber}: Expected an object "header" or "row".`,
+      );
+    }
+
+    return parsed;
+  }
+}
+
+/// A line of an NDJSON file
+export interface NdjsonLine {
+  table: string;
+  header?: Record<string, any>;
+  row?: Record<string, any>;
+}
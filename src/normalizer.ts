@@ -0,0 +1,130 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Rljson, Rlmap, Rltables } from './rljson.ts';
+
+/// Splits nested objects into linked rljson tables
+///
+/// A mapping assigns object paths to tables. Paths are relative to the
+/// root objects. Items of lists have the path of the list:
+///
+/// ```
+/// Normalizer.normalize(rljson, 'book', books, {
+///   author: 'author',
+///   'author/address': 'address',
+///   tags: 'tags',
+/// });
+/// ```
+///
+/// Mapped objects become rows of their table. In the parent row,
+/// `author: {...}` is replaced by `authorRef: hash` and
+/// `tags: [{...}, {...}]` by `tagsRefs: [hash, hash]`.
+/// Objects are hashed leaves first, i.e. before their parents.
+///
+/// When a path is mapped to a table named differently than the key,
+/// the parent table needs to declare the table of the link column,
+/// e.g. `authorRef: { type: 'ref', table: 'person' }`.
+export class Normalizer {
+  // ...........................................................................
+  /// Adds the objects and all mapped nested objects to rljson.
+  ///
+  /// Returns the new instance and the hashes of the objects.
+  static normalize(
+    rljson: Rljson,
+    table: string,
+    objects: Rlmap | Rlmap[],
+    mapping: RlnormalizeMapping,
+  ): RlnormalizeResult {
+    const tables: Record<string, Map<string, Rlmap>> = {};
+
+    const normalizer = new Normalizer(rljson, mapping, tables);
+    const hashes = (Array.isArray(objects) ? objects : [objects]).map(
+      (object) => normalizer._row(table, '', object),
+    );
+
+    const data: Rltables = {};
+    for (const [table, rows] of Object.entries(tables)) {
+      data[table] = { _data: [...rows.values()] };
+    }
+
+    return {
+      rljson: rljson.addData(data, { updateHashes: false }),
+      hashes,
+    };
+  }
+
+  // ...........................................................................
+  private constructor(
+    private readonly _rljson: Rljson,
+    private readonly _mapping: RlnormalizeMapping,
+    private readonly _tables: Record<string, Map<string, Rlmap>>,
+  ) {}
+
+  // ...........................................................................
+  /// Collects the row for an object and returns its hash
+  private _row(table: string, path: string, object: any): string {
+    if (object == null || typeof object !== 'object' || Array.isArray(object)) {
+      throw new Error(
+        `Value at "${path || '/'}" must be an object to become a row of table "${table}".`,
+      );
+    }
+
+    const row: Rlmap = {};
+
+    for (const [key, value] of Object.entries(object)) {
+      if (key === '_hash') continue;
+
+      const childPath = path === '' ? key : `${path}/${key}`;
+      const childTable = this._mapping[childPath];
+      if (childTable == null) {
+        row[key] = value;
+        continue;
+      }
+
+      // Replace nested objects by links
+      const isList = Array.isArray(value);
+      const column = `${key}${isList ? 'Refs' : 'Ref'}`;
+      this._checkLink(table, column, childTable);
+
+      row[column] =
+        value == null
+          ? value
+          : isList
+            ? value.map((item) => this._row(childTable, childPath, item))
+            : this._row(childTable, childPath, value);
+    }
+
+    // Hash a copy to keep nested values of the caller unchanged
+    const hashedRow = this._rljson.jsonJash.apply(row, {
+      updateExistingHashes: true,
+      throwIfOnWrongHashes: false,
+      inPlace: false,
+    });
+
+    (this._tables[table] ??= new Map()).set(hashedRow._hash!, hashedRow);
+    return hashedRow._hash!;
+  }
+
+  // ...........................................................................
+  /// Throws if the column would not link to the mapped table
+  private _checkLink(table: string, column: string, linkedTable: string): void {
+    const actualTable = this._rljson.linkedTable(table, column);
+    if (actualTable !== linkedTable) {
+      throw new Error(
+        `Column "${column}" of table "${table}" links to table "${actualTable}" instead of "${linkedTable}". Declare the table of the column in _columns.`,
+      );
+    }
+  }
+}
+
+/// Maps object paths to tables
+export type RlnormalizeMapping = Record<string, string>;
+
+/// The result of normalizing objects
+export interface RlnormalizeResult {
+  rljson: Rljson;
+  hashes: string[];
+}
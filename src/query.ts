@@ -0,0 +1,262 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Rljson, Rlmap } from './rljson.ts';
+
+/// Evaluates JSON based where clauses and sort orders
+///
+/// Where clauses are plain objects which can be serialized:
+///
+/// ```json
+/// {
+///   value: 'a',
+///   'bRef/value': { _in: ['b', 'c'] },
+///   _or: [{ count: { _gt: 5 } }, { _not: { count: null } }],
+/// }
+/// ```
+///
+/// - Keys are columns or paths following links, e.g. `bRef/cRef/value`
+/// - Values are compared for equality or contain operators like `_gt`
+/// - Multiple keys must all match
+/// - `_and`, `_or` and `_not` combine clauses
+export class Query {
+  // ...........................................................................
+  /// The operators that can be used in conditions
+  static readonly operators = [
+    '_eq',
+    '_ne',
+    '_lt',
+    '_lte',
+    '_gt',
+    '_gte',
+    '_in',
+  ];
+
+  // ...........................................................................
+  /// Returns true if the row of the table matches the where clause
+  static matches(
+    rljson: Rljson,
+    table: string,
+    row: Rlmap,
+    where: Rlwhere,
+  ): boolean {
+    for (const [key, condition] of Object.entries(where)) {
+      switch (key) {
+        case '_and':
+          if (!Query._all(rljson, table, row, condition as Rlwhere[])) {
+            return false;
+          }
+          break;
+        case '_or':
+          if (
+            !(condition as Rlwhere[]).some((w) =>
+              Query.matches(rljson, table, row, w),
+            )
+          ) {
+            return false;
+          }
+          break;
+        case '_not':
+          if (Query.matches(rljson, table, row, condition as Rlwhere)) {
+            return false;
+          }
+          break;
+        default: {
+          const value = Query.valueAt(rljson, table, row, key);
+          if (!Query._meets(value, condition)) {
+            return false;
+          }
+        }
+      }
+    }
+
+    return true;
+  }
+
+  // ...........................................................................
+  /// Returns a sorted copy of rows
+  static sort(
+    rljson: Rljson,
+    table: string,
+    rows: Rlmap[],
+    orderBy: Rlorder[],
+  ): Rlmap[] {
+    const orders = orderBy.map((order) =>
+      typeof order === 'string' ? { column: order } : order,
+    );
+
+    // Read sort values only once per row
+    const keyed = rows.map((row) => ({
+      row,
+      values: orders.map(({ column }) =>
+        Query.valueAt(rljson, table, row, column),
+      ),
+    }));
+
+    keyed.sort((a, b) => {
+      for (let i = 0; i < orders.length; i++) {
+        const result = Query.compare(a.values[i], b.values[i]);
+        if (result !== 0) {
+          return orders[i].direction === 'desc' ? -result : result;
+        }
+      }
+      return 0;
+    });
+
+    return keyed.map(({ row }) => row);
+  }
+
+  // ...........................................................................
+  /// Returns the value at a path like `bRef/cRef/value`.
+  /// Returns undefined when the first link of the path is not set.
+  static valueAt(rljson: Rljson, table: string, row: Rlmap, path: string): any {
+    const parts = path.split('/');
+    const value = row[parts[0]];
+    if (parts.length === 1 || value == null) {
+      return value;
+    }
+
+    return rljson.value({
+      table,
+      itemHash: row._hash!,
+      followLink: parts,
+    });
+  }
+
+  // ...........................................................................
+  /// Compares two values. Null and undefined come first.
+  static compare(a: any, b: any): number {
+    if (a == null || b == null) {
+      return (a == null ? 0 : 1) - (b == null ? 0 : 1);
+    }
+
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  // ...........................................................................
+  private static _all(
+    rljson: Rljson,
+    table: string,
+    row: Rlmap,
+    where: Rlwhere[],
+  ): boolean {
+    return where.every((w) => Query.matches(rljson, table, row, w));
+  }
+
+  // ...........................................................................
+  private static _meets(value: any, condition: any): boolean {
+    if (!Query.isOperator(condition)) {
+      return Query._equals(value, condition);
+    }
+
+    for (const [operator, operand] of Object.entries(condition)) {
+      if (!Query._apply(operator, value, operand)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  // ...........................................................................
+  /// Returns true if the condition is an object containing operators
+  static isOperator(condition: any): condition is Rloperators {
+    if (
+      condition == null ||
+      typeof condition !== 'object' ||
+      Array.isArray(condition)
+    ) {
+      return false;
+    }
+
+    return Object.keys(condition).some(
+      (key) => key.startsWith('_') && key !== '_hash',
+    );
+  }
+
+  // ...........................................................................
+  private static _apply(operator: string, value: any, operand: any): boolean {
+    switch (operator) {
+      case '_eq':
+        return Query._equals(value, operand);
+      case '_ne':
+        return !Query._equals(value, operand);
+      case '_in':
+        return (operand as any[]).some((o) => Query._equals(value, o));
+    }
+
+    if (!Query.operators.includes(operator)) {
+      throw new Error(`Unknown operator "${operator}".`);
+    }
+
+    // Null values can't be compared
+    if (value == null || operand == null) {
+      return false;
+    }
+
+    switch (operator) {
+      case '_lt':
+        return value < operand;
+      case '_lte':
+        return value <= operand;
+      case '_gt':
+        return value > operand;
+      default:
+        return value >= operand;
+    }
+  }
+
+  // ...........................................................................
+  /// Compares values deeply. Hashes of objects are ignored.
+  private static _equals(a: any, b: any): boolean {
+    if (a == null || b == null) {
+      return a == null && b == null;
+    }
+
+    if (typeof a !== 'object' || typeof b !== 'object') {
+      return a === b;
+    }
+
+    if (Array.isArray(a) !== Array.isArray(b)) {
+      return false;
+    }
+
+    const keysA = Object.keys(a).filter((key) => key !== '_hash');
+    const keysB = Object.keys(b).filter((key) => key !== '_hash');
+    if (keysA.length !== keysB.length) {
+      return false;
+    }
+
+    return keysA.every((key) => Query._equals(a[key], b[key]));
+  }
+}
+
+/// Operators that can be applied to a value
+export interface Rloperators {
+  _eq?: any;
+  _ne?: any;
+  _lt?: any;
+  _lte?: any;
+  _gt?: any;
+  _gte?: any;
+  _in?: any[];
+}
+
+/// A JSON based where clause
+export interface Rlwhere {
+  _and?: Rlwhere[];
+  _or?: Rlwhere[];
+  _not?: Rlwhere;
+  [path: string]: any;
+}
+
+/// Sorts by a column or path, ascending by default
+export type Rlorder =
+  | string
+  | {
+      column: string;
+      direction?: 'asc' | 'desc';
+    };
@@ -6,32 +6,68 @@
 
 import { ApplyJsonHashConfig, JsonHash } from 'gg-json-hash';
 
+import { BacklinkIndex, Rlbacklink, Rllinkage } from './backlink-index.ts';
+import { ColumnIndex, Rlindexes, RlindexType } from './column-index.ts';
+import { Query, Rlorder, Rlwhere } from './query.ts';
+import { Rlcolumns, Schema } from './schema.ts';
+import {
+  RlchangeListener,
+  SubscribeOptions,
+  Subscriptions,
+} from './subscriptions.ts';
+import { Transaction } from './transaction.ts';
+import {
+  RlcolumnPath,
+  RlfollowLink,
+  RlnewRow,
+  RlrowOf,
+  RlselectRow,
+  RltableName,
+  RlvalueAt,
+} from './types.ts';
+
 /// Manages a normalized JSON data structure
 ///
 /// composed of tables '@tableA', '@tableB', etc.
 /// Each table contains an _data array, which contains data items.
 /// Each data item has an hash calculated using gg_json_hash.
-export class Rljson {
+///
+/// Optionally a schema type S describes the rows of all tables.
+/// Table names, columns and links are then checked at compile time
+/// (see types.ts).
+export class Rljson<S = any> {
   public data: Rltables;
   public dataIndexed: Rltables;
+  public indexes: Rlindexes;
+  public backlinks: BacklinkIndex;
+  public subscriptions: Subscriptions;
   public jsonJash = JsonHash.default;
 
   // ...........................................................................
   /// Creates an instance of Rljson.
-  constructor({ data, dataIndexed: dataIndexed }: RljsonConstructorParams) {
+  constructor({
+    data,
+    dataIndexed: dataIndexed,
+    indexes = {},
+    backlinks,
+    subscriptions = new Subscriptions(),
+  }: RljsonConstructorParams) {
     this.data = data;
     this.dataIndexed = dataIndexed;
+    this.indexes = indexes;
+    this.backlinks = backlinks ?? this._createBacklinks();
+    this.subscriptions = subscriptions;
   }
 
   // ...........................................................................
   /// Creates an Rljson instance from JSON data.
-  static fromJson(
+  static fromJson<S = any>(
     data: Record<string, any>,
     options: Partial<FromJsonOptions> = {
       validateHashes: false,
       updateHashes: true,
     },
-  ): Rljson {
+  ): Rljson<S> {
     const { validateHashes = false } = options;
     const { updateHashes = true } = options;
 
@@ -42,7 +78,7 @@ export class Rljson {
 
   // ...........................................................................
   /// Creates an empty Rljson instance
-  static empty(): Rljson {
+  static empty<S = any>(): Rljson<S> {
     return new Rljson({ data: {}, dataIndexed: {} });
   }
 
@@ -54,11 +90,27 @@ export class Rljson {
       validateHashes: false,
       updateHashes: true,
     },
-  ): Rljson {
-    const { validateHashes = false, updateHashes = true } = options;
+  ): Rljson<S> {
+    const { rljson, added } = this._addData(addedData, options);
+    this._notify(rljson, added);
+    return rljson;
+  }
+
+  // ...........................................................................
+  /// Adds data without notifying the subscribers
+  private _addData(
+    addedData: Rltables,
+    options: Partial<AddDataOptions>,
+  ): MergeResult {
+    const {
+      validateHashes = false,
+      updateHashes = true,
+      checkLinks = false,
+    } = options;
 
     this._checkData(addedData);
     Rljson.checkTableNames(addedData);
+    this._checkColumns(addedData);
 
     if (validateHashes) {
       this.jsonJash.validate(addedData);
@@ -74,68 +126,26 @@ export class Rljson {
     );
     const addedDataAsMap = this._toMap(addedData);
 
+    if (checkLinks) {
+      this._checkAddedLinks(addedData, addedDataAsMap);
+    }
+
     if (Object.keys(this.data).length === 0) {
-      return new Rljson({
+      const rljson = new Rljson({
         data: addedData,
         dataIndexed: addedDataAsMap,
+        subscriptions: this.subscriptions.derive(),
       });
-    }
-
-    const mergedData = { ...this.data };
-    const mergedDataIndexed = { ...this.dataIndexed };
-
-    if (Object.keys(this.data).length > 0) {
-      for (const table of Object.keys(addedData)) {
-        if (table === '_hash') {
-          continue;
-        }
-
-        const oldTable = this.data[table];
-        const newTable = addedData[table];
 
-        // Table does not exist yet. Insert all
-        if (oldTable == null) {
-          mergedData[table] = newTable;
-          mergedDataIndexed[table] = addedDataAsMap[table];
-          continue;
-        }
-
-        const oldDataIndexed = this.dataIndexed[table];
-
-        // Table exists. Merge data
-        const mergedTable = [...oldTable['_data']];
-        const mergedTableIndexed = { ...oldDataIndexed };
-        const newData = newTable['_data'];
-
-        for (const item of newData) {
-          const hash = item['_hash'];
-          const exists = mergedTableIndexed[hash] != null;
-
-          if (!exists) {
-            mergedTable.push(item);
-            mergedTableIndexed[hash] = item;
-          }
-        }
-
-        newTable['_data'] = mergedTable;
-        mergedData[table] = newTable;
-        mergedDataIndexed[table] = mergedTableIndexed;
+      const added: Record<string, Rlmap[]> = {};
+      for (const [table, rows] of Object.entries(addedDataAsMap)) {
+        added[table] = Object.values(rows);
       }
-    }
-
-    // Recalc main hashes
-    delete mergedData._hash;
 
-    this.jsonJash.apply(mergedData, {
-      updateExistingHashes: false,
-      throwIfOnWrongHashes: false,
-      inPlace: true,
-    });
+      return { rljson, added };
+    }
 
-    // Replace own data
-    this.data = mergedData;
-    this.dataIndexed = mergedDataIndexed;
-    return this;
+    return this._merge(addedData, addedDataAsMap);
   }
 
   // ...........................................................................
@@ -167,26 +177,87 @@ export class Rljson {
   }
 
   // ...........................................................................
-  /// Adds a new table to the data
-  createTable(table: string): Rljson {
-    return this.addData({
-      [table]: {
-        _data: [],
+  /// Adds a new table to the data.
+  /// Optionally columns can be declared which are checked for added rows.
+  createTable(table: RltableName<S>, columns?: Rlcolumns): Rljson<S> {
+    const tableData: Rlmap = { _data: [] };
+    if (columns != null) {
+      tableData['_columns'] = columns;
+    }
+
+    return this.addData({ [table]: tableData });
+  }
+
+  // ...........................................................................
+  /// Adds a secondary index for a column of a table.
+  ///
+  /// Indexes are used by items() and select() for JSON where clauses.
+  /// Hash indexes serve equality and _in conditions. Sorted indexes
+  /// additionally serve _lt, _lte, _gt and _gte conditions.
+  /// Indexes are not part of the data and not part of the hashes.
+  createIndex(
+    table: string,
+    column: string,
+    type: RlindexType = 'hash',
+  ): Rljson<S> {
+    const rows = Object.values(this.tableIndexed(table));
+
+    return new Rljson({
+      data: this.data,
+      dataIndexed: this.dataIndexed,
+      backlinks: this.backlinks,
+      subscriptions: this.subscriptions.derive(),
+      indexes: {
+        ...this.indexes,
+        [table]: {
+          ...this.indexes[table],
+          [column]: ColumnIndex.create(type, column, rows),
+        },
       },
     });
   }
 
   // ...........................................................................
   /// Allows to query data from a table
-  items({ table, where }: QueryOptions): Rlmap[] {
+  ///
+  /// where is either a function or a JSON where clause (see Query).
+  /// Results can be sorted using orderBy and paged using offset and limit.
+  /// Without orderBy the order of the results is not defined.
+  items<T extends RltableName<S>>({
+    table,
+    where,
+    orderBy,
+    offset,
+    limit,
+  }: QueryOptions & { table: T }): RlrowOf<S, T>[] {
     const tableData = this.tableIndexed(table);
-    const items = Object.values(tableData).filter(where);
-    return items;
+    let items: Rlmap[];
+
+    if (typeof where === 'function') {
+      items = Object.values(tableData).filter(where);
+    } else if (where != null) {
+      items = (
+        this._indexedItems(table, where) ?? Object.values(tableData)
+      ).filter((item) => Query.matches(this, table, item, where));
+    } else {
+      items = Object.values(tableData);
+    }
+
+    if (orderBy != null) {
+      items = Query.sort(this, table, items, orderBy);
+    }
+
+    if (offset != null || limit != null) {
+      const start = offset ?? 0;
+      items = items.slice(start, limit == null ? undefined : start + limit);
+    }
+
+    return items as RlrowOf<S, T>[];
   }
 
   // ...........................................................................
   /// Allows to query data from the json
-  row(table: string, hash: string): Rlmap {
+  row<T extends RltableName<S>>(table: T, hash: string): RlrowOf<S, T> {
     // Get table
     const tableData = this.dataIndexed[table];
     if (tableData == null) {
@@ -203,10 +274,15 @@ export class Rljson {
   }
 
   // ...........................................................................
-  addRow(table: string, item: Rlmap): void {
+  /// Returns a new instance with the item added to the table.
+  /// Returns the same instance when the item already exists.
+  addRow<T extends RltableName<S>>(
+    table: T,
+    newRow: RlnewRow<S, T>,
+  ): Rljson<S> {
     // Add or validate hashes
-    item = this.jsonJash.apply(
-      item,
+    const item: Rlmap = this.jsonJash.apply(
+      newRow as Rlmap,
       new ApplyJsonHashConfig(
         false, // inPlace
         false, // updateExistingHashes
@@ -214,31 +290,94 @@ export class Rljson {
       ),
     );
 
-    // Get the right tables
-    let tableData = this.table(table);
-    let tableDataIndexed = this.dataIndexed[table];
+    // Get the right table
+    const tableDataIndexed = this.tableIndexed(table);
+
+    // Check the item against the declared columns
+    const columns = this.data[table]['_columns'];
+    if (columns != null) {
+      Schema.checkRow(table, columns, item);
+    }
 
     // Do nothing when the item already exists
     const itemExitsts = tableDataIndexed[item._hash!] != null;
     if (itemExitsts) {
-      return;
+      return this;
     }
 
-    // Write the item into the tables
-    tableData['_data'].push(item);
-    tableDataIndexed[item._hash!] = item;
+    // Merge the item into a copy of the table
+    const { rljson, added } = this._merge(
+      { [table]: { _data: [item] } },
+      { [table]: { [item._hash!]: item } },
+    );
+
+    this._notify(rljson, added);
+    return rljson;
+  }
+
+  // ...........................................................................
+  /// Returns a new instance with the rows of the tables sorted by hash.
+  ///
+  /// Instances holding the same rows then have the same hashes.
+  /// Returns the same instance when all rows are sorted already.
+  sortRows(tables: RltableName<S>[]): Rljson<S> {
+    const sorted: Record<string, Rlmap> = {};
+    for (const table of tables) {
+      const { _data, _hash, ...header } = this.table(table);
+      const hashes = (_data as Rlmap[]).map((row) => row._hash!);
+      const sortedHashes = [...hashes].sort();
+
+      if (sortedHashes.some((hash, i) => hash !== hashes[i])) {
+        sorted[table] = { ...header, _data: sortedHashes };
+      }
+    }
+
+    return this._replaceTables(sorted);
+  }
+
+  // ...........................................................................
+  /// Returns a transaction collecting changes which are applied at once
+  transaction(): Transaction<S> {
+    return new Transaction(this);
+  }
+
+  // ...........................................................................
+  /// Calls listener when rows are added to this or to derived instances.
+  ///
+  /// options.table and options.hash limit the notifications to a table
+  /// or to a row. Returns a function removing the subscription.
+  subscribe(
+    listener: RlchangeListener,
+    options: Partial<SubscribeOptions> = {},
+  ): () => void {
+    return this.subscriptions.subscribe(listener, options);
   }
 
   // ...........................................................................
   /// Queries a value from data. Throws when table or hash is not found.
+  value<
+    T extends RltableName<S>,
+    P extends RlfollowLink<S, T> | undefined = undefined,
+  >({
+    table,
+    itemHash,
+    followLink,
+  }: {
+    table: T;
+    itemHash: string;
+    followLink?: P;
+  }): RlvalueAt<S, T, P> {
+    return this._value({ table, itemHash, followLink });
+  }
 
-  value({ table, itemHash, followLink }: GetValue): any {
+  // ...........................................................................
+  private _value({ table, itemHash, followLink }: GetValue): any {
     if (itemHash.length === 0) {
       throw new Error('itemHash must not be empty.');
     }
 
     // Get item
-    const row = this.row(table, itemHash);
+    const row: Rlmap = (this as Rljson).row(table, itemHash);
 
     // If no followLink is given, return the complete row
     if (!followLink?.length) {
@@ -247,16 +386,21 @@ export class Rljson {
 
     const refKey = followLink[0];
 
-    // Get item value
+    // Get item value. Empty links stay empty.
     const value = row[refKey];
+    const targetTable = this.linkedTable(table, refKey);
     if (value == null) {
+      if (targetTable != null) {
+        return null;
+      }
+
       throw new Error(
         `Key "${refKey}" not found in item with hash "${itemHash}" in table "${table}"`,
       );
     }
 
     // Return item value when no link or links are not followed
-    if (!refKey.endsWith('Ref')) {
+    if (targetTable == null) {
       const refHash = followLink[1];
       if (refHash != null) {
         throw new Error(
@@ -268,27 +412,56 @@ export class Rljson {
     }
 
     // Follow links
-    const targetTable = refKey.substring(0, refKey.length - 3);
-    const targetHash = value;
+    const follow = (targetHash: string | null) =>
+      targetHash == null
+        ? null
+        : this._value({
+            table: targetTable,
+            itemHash: targetHash,
+            followLink: followLink.slice(1),
+          });
 
-    return this.value({
-      table: targetTable,
-      itemHash: targetHash,
-      followLink: followLink.slice(1),
-    });
+    // Lists of links return a list of values
+    return Array.isArray(value) ? value.map(follow) : follow(value);
+  }
+
+  // ...........................................................................
+  /// Returns the row with all links replaced by the linked rows.
+  ///
+  /// Linked rows are resolved recursively up to options.depth levels.
+  /// Lists of links become lists of rows. Links deeper than depth and
+  /// links back to a row currently being resolved keep their hashes.
+  /// Throws when a linked row does not exist.
+  resolve(
+    table: string,
+    hash: string,
+    options: Partial<ResolveOptions> = {},
+  ): Rlmap {
+    const { depth = Infinity } = options;
+    return this._resolve(table, hash, depth, new Set());
   }
 
   // ...........................................................................
   /// Joins multiple tables into one and returns the result
   ///
+  /// Optionally only rows matching a JSON where clause are selected.
+  ///
   /// Note: This implementation is not optimized for performance.
-  select(table: string, columns: string[]): Array<Array<any>> {
+  select<
+    T extends RltableName<S>,
+    const C extends readonly RlcolumnPath<S, T>[],
+  >(table: T, columns: C, where?: Rlwhere): RlselectRow<S, T, C>[] {
     // Get the table
-    const sourceRows = this.data[table]?._data;
+    let sourceRows = this.data[table]?._data;
     if (!sourceRows) {
       throw new Error(`Table "${table}" not found.`);
     }
 
+    // Filter the rows
+    if (where != null) {
+      sourceRows = this.items({ table, where });
+    }
+
     // Split columns
     const columnParts = columns.map((column) => column.split('/'));
 
@@ -305,16 +478,14 @@ export class Rljson {
       for (let colNo = 0; colNo < columnParts.length; colNo++) {
         const parts = columnParts[colNo];
         const key = parts[0];
-        if (!key.endsWith('Ref')) {
+        if (this.linkedTable(table, key) == null) {
           targetRow[colNo] = sourceRow[key];
           continue;
         } else {
-          const targetTable = key.substring(0, key.length - 3);
-          const targetHash = sourceRow[key];
-          targetRow[colNo] = this.value({
-            table: targetTable,
-            itemHash: targetHash,
-            followLink: parts.slice(1),
+          targetRow[colNo] = this._value({
+            table,
+            itemHash: sourceRow._hash,
+            followLink: parts,
           });
         }
       }
@@ -342,7 +513,9 @@ export class Rljson {
   }
 
   // ...........................................................................
-  /// Returns all paths found in data
+  /// Returns all paths found in data.
+  ///
+  /// Lists of links get a path for each link, e.g. `a/hash/tagRefs/0`.
   ls(): string[] {
     const result: string[] = [];
     for (const [table, tableData] of Object.entries(this.dataIndexed)) {
@@ -351,6 +524,14 @@ export class Rljson {
           if (key === '_hash') {
             continue;
           }
+
+          if (key.endsWith('Refs') && Array.isArray(item[key])) {
+            item[key].forEach((_: string, i: number) =>
+              result.push(`${table}/${hash}/${key}/${i}`),
+            );
+            continue;
+          }
+
           result.push(`${table}/${hash}/${key}`);
         }
       }
@@ -359,41 +540,446 @@ export class Rljson {
   }
 
   // ...........................................................................
-  /// Throws if a link is not available
-  checkLinks(): void {
+  /// Returns the rows linking to the row with hash in table.
+  ///
+  /// Optionally only rows of sourceTable are returned.
+  referencedBy(
+    table: string,
+    hash: string,
+    sourceTable?: string,
+  ): Rlbacklink[] {
+    const backlinks = this.backlinks.referencedBy(table, hash);
+    return sourceTable == null
+      ? backlinks
+      : backlinks.filter((backlink) => backlink.table === sourceTable);
+  }
+
+  // ...........................................................................
+  /// Returns the table linked by a column of table.
+  ///
+  /// Columns ending with Ref or Refs link to the table declared in
+  /// _columns, e.g. `authorRef: { type: 'ref', table: 'person' }`.
+  /// Without declaration the table is the column name without Ref or Refs.
+  /// Returns undefined for columns not containing links.
+  linkedTable(table: string, column: string): string | undefined {
+    return Rljson._linkedTable(column, this.data[table]?.['_columns']);
+  }
+
+  // ...........................................................................
+  /// Resolves a row. path contains the rows currently being resolved.
+  private _resolve(
+    table: string,
+    hash: string,
+    depth: number,
+    path: Set<string>,
+  ): Rlmap {
+    const row: Rlmap = (this as Rljson).row(table, hash);
+    const key = `${table}/${hash}`;
+    if (depth <= 0) {
+      return row;
+    }
+
+    path.add(key);
+    const result: Rlmap = { ...row };
+
+    for (const [column, value] of Object.entries(row)) {
+      const targetTable = this.linkedTable(table, column);
+      if (targetTable == null || value == null) continue;
+
+      const resolve = (targetHash: string | null) => {
+        if (targetHash == null) return targetHash;
+
+        // Links back to a row being resolved keep their hash
+        if (path.has(`${targetTable}/${targetHash}`)) return targetHash;
+
+        return this._resolve(targetTable, targetHash, depth - 1, path);
+      };
+
+      result[column] = Array.isArray(value)
+        ? value.map(resolve)
+        : resolve(value);
+    }
+
+    path.delete(key);
+    return result;
+  }
+
+  // ...........................................................................
+  /// Returns the roots and all rows linked by them, directly or
+  /// indirectly. Broken links are ignored.
+  private _reachable(roots: RowRef[]): Record<string, Set<string>> {
+    const reachable: Record<string, Set<string>> = {};
+    const pending: RowRef[] = [];
+    for (const { table, hash } of roots) {
+      (this as Rljson).row(table, hash); // Throws when the root does not exist
+      pending.push({ table, hash });
+      (reachable[table] ??= new Set()).add(hash);
+    }
+
+    while (pending.length > 0) {
+      const { table: sourceTable, hash: sourceHash } = pending.pop()!;
+      const item = this.dataIndexed[sourceTable][sourceHash];
+      const columns = this.data[sourceTable]['_columns'];
+
+      for (const { table, hash } of this._links(item, columns)) {
+        if (this.dataIndexed[table]?.[hash] == null) continue;
+
+        const visited = (reachable[table] ??= new Set());
+        if (visited.has(hash)) continue;
+        visited.add(hash);
+        pending.push({ table, hash });
+      }
+    }
+
+    return reachable;
+  }
+
+  // ...........................................................................
+  /// Returns a new instance without the given rows.
+  ///
+  /// Throws when one of the rows is still referenced by another row.
+  /// With cascade set to true, referencing rows are removed too.
+  removeRows(
+    table: RltableName<S>,
+    hashes: string[],
+    options: Partial<RemoveRowsOptions> = { cascade: false },
+  ): Rljson<S> {
+    const { cascade = false } = options;
+
+    // Collect the rows to be removed
+    const removed: Record<string, Set<string>> = {};
+    let pending: RowRef[] = [];
+    for (const hash of hashes) {
+      (this as Rljson).row(table, hash);
+      pending.push({ table, hash });
+    }
+
+    while (pending.length > 0) {
+      for (const { table, hash } of pending) {
+        (removed[table] ??= new Set()).add(hash);
+      }
+
+      // Find rows that still link to the removed rows
+      const referencing = this._rowsLinkingTo(removed);
+      if (referencing.length === 0) {
+        break;
+      }
+
+      if (!cascade) {
+        const { source, target } = referencing[0];
+        throw new Error(
+          `Cannot remove item "${target.hash}" from table "${target.table}". ` +
+            `It is referenced by item "${source.hash}" in table "${source.table}".`,
+        );
+      }
+
+      pending = referencing.map(({ source }) => source);
+    }
+
+    return this._remove(removed);
+  }
+
+  // ...........................................................................
+  /// Returns a new instance only containing rows reachable from roots.
+  ///
+  /// Rows are reachable when they are a root or when they are linked
+  /// by a reachable row. Tables are kept, even if they become empty.
+  collectGarbage(roots: RowRef[]): Rljson<S> {
+    const reachable = this._reachable(roots);
+
+    // Sweep all other rows
+    const removed: Record<string, Set<string>> = {};
+    for (const [table, tableData] of Object.entries(this.dataIndexed)) {
+      for (const hash of Object.keys(tableData)) {
+        if (!reachable[table]?.has(hash)) {
+          (removed[table] ??= new Set()).add(hash);
+        }
+      }
+    }
+
+    return this._remove(removed);
+  }
+
+  // ...........................................................................
+  /// Returns a new instance containing the row and all rows it links to,
+  /// directly or via other rows.
+  ///
+  /// Throws if one of the links is broken, i.e. links of the result
+  /// always pass checkLinks().
+  extract(table: string, hash: string): Rljson<S> {
+    const reachable = this._reachable([{ table, hash }]);
+
+    const data: Rltables = {};
     for (const table of Object.keys(this.dataIndexed)) {
-      const tableData = this.dataIndexed[table];
+      const hashes = reachable[table];
+      if (hashes == null) continue;
+
+      const { _data, _hash, ...header } = this.data[table];
+      data[table] = {
+        ...header,
+        _data: _data.filter((row: Rlmap) => hashes.has(row._hash!)),
+      };
+    }
 
-      for (const entry of Object.entries(tableData)) {
-        const item = entry[1];
-        for (const key of Object.keys(item)) {
-          if (key === '_hash') continue;
-
-          if (key.endsWith('Ref')) {
-            // Check if linked table exists
-            const tableName = key.substring(0, key.length - 3);
-            const linkTable = this.dataIndexed[tableName];
-            const hash = item['_hash'];
-
-            if (linkTable == null) {
-              throw new Error(
-                `Table "${table}" has an item "${hash}" which links to not existing table "${key}".`,
-              );
-            }
-
-            // Check if linked item exists
-            const targetHash = item[key];
-            const linkedItem = linkTable[targetHash];
-
-            if (linkedItem == null) {
-              throw new Error(
-                `Table "${table}" has an item "${hash}" which links to not existing item "${targetHash}" in table "${tableName}".`,
-              );
-            }
-          }
+    const result = Rljson.empty().addData(data, { updateHashes: false });
+    result.checkLinks();
+    return result;
+  }
+
+  // ...........................................................................
+  /// Throws if a link is not available.
+  ///
+  /// Only the first broken link is reported. Use brokenLinks() to get all.
+  checkLinks(): void {
+    const [brokenLink] = this.brokenLinks();
+    if (brokenLink != null) {
+      throw Rljson._brokenLinkError(brokenLink);
+    }
+  }
+
+  // ...........................................................................
+  private static _brokenLinkError(brokenLink: RlbrokenLink): Error {
+    const { sourceTable, sourceHash, column, targetTable, targetHash } =
+      brokenLink;
+
+    if (brokenLink.reason === 'missingTable') {
+      return new Error(
+        `Table "${sourceTable}" has an item "${sourceHash}" which links to not existing table "${column}".`,
+      );
+    }
+
+    return new Error(
+      `Table "${sourceTable}" has an item "${sourceHash}" which links to not existing item "${targetHash}" in table "${targetTable}".`,
+    );
+  }
+
+  // ...........................................................................
+  /// Throws if added rows link to rows neither existing nor added
+  private _checkAddedLinks(
+    addedData: Rltables,
+    addedDataAsMap: Rltables,
+  ): void {
+    for (const [table, rows] of Object.entries(addedDataAsMap)) {
+      const columns =
+        this.data[table]?.['_columns'] ?? addedData[table]['_columns'];
+
+      for (const [hash, item] of Object.entries(rows as Rltables)) {
+        for (const link of this._links(item, columns)) {
+          const existing = this.dataIndexed[link.table];
+          const added = addedDataAsMap[link.table];
+          const reason =
+            existing == null && added == null
+              ? 'missingTable'
+              : existing?.[link.hash] == null && added?.[link.hash] == null
+                ? 'missingRow'
+                : undefined;
+
+          if (reason == null) continue;
+
+          throw Rljson._brokenLinkError({
+            sourceTable: table,
+            sourceHash: hash,
+            column: link.column,
+            targetTable: link.table,
+            targetHash: link.hash,
+            reason,
+          });
+        }
+      }
+    }
+  }
+
+  // ...........................................................................
+  /// Returns all links pointing to missing tables or missing rows
+  brokenLinks(): RlbrokenLink[] {
+    const result: RlbrokenLink[] = [];
+
+    for (const [table, tableData] of Object.entries(this.dataIndexed)) {
+      const columns = this.data[table]['_columns'];
+      for (const [hash, item] of Object.entries(tableData)) {
+        for (const link of this._links(item, columns)) {
+          const linkTable = this.dataIndexed[link.table];
+          const reason =
+            linkTable == null
+              ? 'missingTable'
+              : linkTable[link.hash] == null
+                ? 'missingRow'
+                : undefined;
+
+          if (reason == null) continue;
+
+          result.push({
+            sourceTable: table,
+            sourceHash: hash,
+            column: link.column,
+            targetTable: link.table,
+            targetHash: link.hash,
+            reason,
+          });
         }
       }
     }
+
+    return result;
+  }
+
+  // ...........................................................................
+  /// Returns the differences between a and b.
+  ///
+  /// Rows are compared by hash. Tables with equal hashes are skipped.
+  /// Added and removed tables are also listed in tables with all their rows.
+  static diff(a: Rljson, b: Rljson): RljsonDiff {
+    const result: RljsonDiff = {
+      rootHashChanged: a.data._hash !== b.data._hash,
+      addedTables: [],
+      removedTables: [],
+      tables: {},
+    };
+
+    if (!result.rootHashChanged) {
+      return result;
+    }
+
+    const tableNames = new Set([
+      ...Object.keys(a.dataIndexed),
+      ...Object.keys(b.dataIndexed),
+    ]);
+
+    for (const table of tableNames) {
+      const tableA = a.data[table];
+      const tableB = b.data[table];
+
+      if (tableA == null) {
+        result.addedTables.push(table);
+      } else if (tableB == null) {
+        result.removedTables.push(table);
+      } else if (tableA._hash === tableB._hash) {
+        continue;
+      }
+
+      const rowsA = a.dataIndexed[table] ?? {};
+      const rowsB = b.dataIndexed[table] ?? {};
+      const notIn = (rows: Rlmap) => (item: Rlmap) => rows[item._hash!] == null;
+
+      result.tables[table] = {
+        addedRows: (tableB?._data ?? [])
+          .filter(notIn(rowsA))
+          .map((item: Rlmap) => item._hash!),
+        removedRows: (tableA?._data ?? [])
+          .filter(notIn(rowsB))
+          .map((item: Rlmap) => item._hash!),
+      };
+    }
+
+    return result;
+  }
+
+  // ...........................................................................
+  /// Returns a JSON serializable patch turning a into b
+  static createPatch(a: Rljson, b: Rljson): Rlpatch {
+    const diff = Rljson.diff(a, b);
+
+    const patch: Rlpatch = {
+      baseHash: a.data._hash,
+      resultHash: b.data._hash,
+      createdTables: {},
+      changedTables: {},
+      removedTables: diff.removedTables,
+      addedRows: {},
+      removedRows: {},
+    };
+
+    for (const table of diff.addedTables) {
+      const { _data, _hash, ...header } = b.data[table];
+      patch.createdTables[table] = header;
+    }
+
+    for (const [table, { addedRows, removedRows }] of Object.entries(
+      diff.tables,
+    )) {
+      // Table hashes also depend on the header and on the order of rows
+      if (a.hasTable(table) && b.hasTable(table)) {
+        const { _data, _hash, ...header } = b.data[table];
+        patch.changedTables[table] = {
+          ...header,
+          _data: _data.map((item: Rlmap) => item._hash),
+        };
+      }
+
+      if (addedRows.length > 0) {
+        patch.addedRows[table] = addedRows.map((hash) => b.row(table, hash));
+      }
+
+      if (removedRows.length > 0 && !diff.removedTables.includes(table)) {
+        patch.removedRows[table] = removedRows;
+      }
+    }
+
+    return patch;
+  }
+
+  // ...........................................................................
+  /// Returns a new instance with the patch applied.
+  ///
+  /// Throws when the root hash of this instance is not the base hash
+  /// of the patch, when the hash of an added row is wrong or when the
+  /// result does not have the result hash.
+  applyPatch(patch: Rlpatch): Rljson<S> {
+    if (this.data._hash !== patch.baseHash) {
+      throw new Error(
+        `Patch base hash "${patch.baseHash}" does not match root hash "${this.data._hash}".`,
+      );
+    }
+
+    // Remove tables and rows
+    let result = this._dropTables(patch.removedTables);
+
+    const removed: Record<string, Set<string>> = {};
+    for (const [table, hashes] of Object.entries(patch.removedRows)) {
+      for (const hash of hashes) {
+        result.row(table, hash);
+      }
+      removed[table] = new Set(hashes);
+    }
+    result = result._remove(removed);
+
+    // Create tables and add rows
+    const added: Rltables = {};
+    for (const [table, header] of Object.entries(patch.createdTables)) {
+      added[table] = { ...header, _data: [] };
+    }
+
+    for (const [table, { _data, ...header }] of Object.entries(
+      patch.changedTables,
+    )) {
+      added[table] = { ...header, _data: [] };
+    }
+
+    // Hash rows. Throw on wrong hashes.
+    for (const [table, rows] of Object.entries(patch.addedRows)) {
+      added[table] = {
+        ...added[table],
+        _data: rows.map((row) =>
+          this.jsonJash.apply(row, {
+            inPlace: false,
+            updateExistingHashes: false,
+            throwIfOnWrongHashes: true,
+          }),
+        ),
+      };
+    }
+
+    const merged = result._addData(added, { updateHashes: false });
+    result = merged.rljson._replaceTables(patch.changedTables);
+
+    if (result.data._hash !== patch.resultHash) {
+      throw new Error(
+        `Patch result hash "${patch.resultHash}" does not match root hash "${result.data._hash}".`,
+      );
+    }
+
+    this._notify(result, merged.added);
+    return result;
   }
 
   // ...........................................................................
@@ -519,6 +1105,27 @@ export class Rljson {
     return rljson;
   }
 
+  // ...........................................................................
+  /// An example object with a column linking a list of rows
+  static get exampleWithLinkList(): Rljson {
+    let rljson = Rljson.fromJson({
+      tag: {
+        _data: [{ name: 'red' }, { name: 'green' }],
+      },
+    });
+
+    const hashRed = rljson.hash({ table: 'tag', index: 0 });
+    const hashGreen = rljson.hash({ table: 'tag', index: 1 });
+
+    rljson = rljson.addData({
+      post: {
+        _data: [{ title: 'Hello', tagRefs: [hashRed, hashGreen] }],
+      },
+    });
+
+    return rljson;
+  }
+
   // ...........................................................................
   /// Checks if table names are valid
   static checkTableNames(data: Rltables): void {
@@ -586,6 +1193,467 @@ export class Rljson {
     }
   }
 
+  // ...........................................................................
+  /// Merges hashed data into a new instance.
+  ///
+  /// Tables that are not touched are shared with this instance.
+  /// Touched tables get a new _data array and a new row map.
+  /// Neither this instance nor the added data is modified.
+  private _merge(addedData: Rltables, addedDataAsMap: Rltables): MergeResult {
+    const mergedData: Rltables = { ...this.data };
+    const mergedDataIndexed: Rltables = { ...this.dataIndexed };
+    const mergedIndexes: Rlindexes = { ...this.indexes };
+    const addedLinks: Rllinkage[] = [];
+    const removedLinks: Rllinkage[] = [];
+    const added: Record<string, Rlmap[]> = {};
+
+    for (const table of Object.keys(addedData)) {
+      if (table === '_hash') {
+        continue;
+      }
+
+      const oldTable = this.data[table];
+      const newTable = addedData[table];
+
+      // Table does not exist yet. Insert all
+      if (oldTable == null) {
+        mergedData[table] = newTable;
+        mergedDataIndexed[table] = addedDataAsMap[table];
+        added[table] = Object.values(addedDataAsMap[table]);
+        addedLinks.push(
+          ...this._linkages(
+            table,
+            Object.values(addedDataAsMap[table]),
+            newTable['_columns'],
+          ),
+        );
+        continue;
+      }
+
+      // Table exists. Merge data
+      const oldDataIndexed = this.dataIndexed[table];
+      let mergedTable: Rlmap[] | undefined;
+      let mergedTableIndexed: Rlmap | undefined;
+      const addedItems: Rlmap[] = [];
+
+      for (const item of newTable['_data']) {
+        const hash = item['_hash'];
+        const exists = (mergedTableIndexed ?? oldDataIndexed)[hash] != null;
+
+        if (!exists) {
+          // Copy the old table on first write
+          mergedTable ??= [...oldTable['_data']];
+          mergedTableIndexed ??= { ...oldDataIndexed };
+
+          mergedTable.push(item);
+          mergedTableIndexed[hash] = item;
+          addedItems.push(item);
+        }
+      }
+
+      // Columns can be declared for tables not having columns yet
+      const addedColumns =
+        oldTable['_columns'] == null ? newTable['_columns'] : undefined;
+
+      addedLinks.push(
+        ...this._linkages(
+          table,
+          addedItems,
+          oldTable['_columns'] ?? addedColumns,
+        ),
+      );
+
+      // Added columns can change the tables linked by existing rows
+      if (addedColumns != null) {
+        removedLinks.push(...this._linkages(table, oldTable['_data']));
+        addedLinks.push(
+          ...this._linkages(table, oldTable['_data'], addedColumns),
+        );
+      }
+
+      // Update secondary indexes
+      if (this.indexes[table] != null && addedItems.length > 0) {
+        mergedIndexes[table] = this._updateIndexes(table, (index) =>
+          index.add(addedItems),
+        );
+      }
+
+      // Nothing added. Keep sharing the old table
+      if (mergedTable == null && addedColumns == null) {
+        continue;
+      }
+
+      // Table hash needs to be recalculated
+      const { _hash, ...tableWithoutHash } = oldTable;
+      const mergedTableData: Rlmap = {
+        ...tableWithoutHash,
+        _data: mergedTable ?? oldTable['_data'],
+      };
+
+      if (addedColumns != null) {
+        mergedTableData['_columns'] = addedColumns;
+      }
+
+      mergedData[table] = mergedTableData;
+      mergedDataIndexed[table] = mergedTableIndexed ?? oldDataIndexed;
+      added[table] = addedItems;
+    }
+
+    // Recalc main hashes
+    delete mergedData._hash;
+
+    this.jsonJash.apply(mergedData, {
+      updateExistingHashes: false,
+      throwIfOnWrongHashes: false,
+      inPlace: true,
+    });
+
+    const rljson = new Rljson({
+      data: mergedData,
+      dataIndexed: mergedDataIndexed,
+      indexes: mergedIndexes,
+      backlinks: this.backlinks.remove(removedLinks).add(addedLinks),
+      subscriptions: this.subscriptions.derive(),
+    });
+
+    return { rljson, added };
+  }
+
+  // ...........................................................................
+  /// Notifies the subscribers about the rows added to result
+  private _notify(result: Rljson, added: Record<string, Rlmap[]>): void {
+    if (this.subscriptions.isEmpty || Object.keys(added).length === 0) {
+      return;
+    }
+
+    const tableHashes: Record<string, string> = {};
+    for (const table of Object.keys(added)) {
+      tableHashes[table] = result.data[table]._hash!;
+    }
+
+    this.subscriptions.notify({
+      rljson: result,
+      added,
+      tableHashes,
+      hash: result.data._hash as string,
+    });
+  }
+
+  // ...........................................................................
+  /// Returns updated copies of all secondary indexes of a table
+  private _updateIndexes(
+    table: string,
+    update: (index: ColumnIndex) => ColumnIndex,
+  ): Record<string, ColumnIndex> {
+    const result: Record<string, ColumnIndex> = {};
+    for (const [column, index] of Object.entries(this.indexes[table])) {
+      result[column] = update(index);
+    }
+
+    return result;
+  }
+
+  // ...........................................................................
+  /// Returns the candidates for a where clause using secondary indexes.
+  /// Returns undefined when no index can be used.
+  private _indexedItems(table: string, where: Rlwhere): Rlmap[] | undefined {
+    const tableIndexes = this.indexes[table];
+    if (tableIndexes == null) {
+      return undefined;
+    }
+
+    for (const [column, condition] of Object.entries(where)) {
+      const hashes = tableIndexes[column]?.lookup(condition);
+      if (hashes == null) continue;
+
+      const tableData = this.dataIndexed[table];
+      return hashes.map((hash) => tableData[hash]);
+    }
+
+    return undefined;
+  }
+
+  // ...........................................................................
+  /// Returns the rows linked by the item. Empty links are ignored.
+  ///
+  /// columns are the declared columns of the table containing the item.
+  private _links(item: Rlmap, columns?: Rlcolumns): Rllink[] {
+    const result: Rllink[] = [];
+    for (const key of Object.keys(item)) {
+      const table = Rljson._linkedTable(key, columns);
+      if (table == null || item[key] == null) continue;
+
+      // Columns ending with Refs contain lists of links
+      const isList = key.endsWith('Refs');
+      if (isList && !Array.isArray(item[key])) {
+        throw new Error(
+          `Column "${key}" of item "${item._hash}" must contain a list of hashes.`,
+        );
+      }
+
+      for (const hash of isList ? item[key] : [item[key]]) {
+        if (hash == null) continue;
+        result.push({ table, hash, column: key });
+      }
+    }
+
+    return result;
+  }
+
+  // ...........................................................................
+  /// Returns the table linked by a column, e.g. `b` for `bRef` and
+  /// `bRefs`, unless columns declare another table.
+  private static _linkedTable(
+    column: string,
+    columns?: Rlcolumns,
+  ): string | undefined {
+    const suffix = column.endsWith('Refs')
+      ? 'Refs'
+      : column.endsWith('Ref')
+        ? 'Ref'
+        : undefined;
+
+    if (suffix == null) {
+      return undefined;
+    }
+
+    return (
+      columns?.[column]?.table ??
+      column.substring(0, column.length - suffix.length)
+    );
+  }
+
+  // ...........................................................................
+  /// Returns the links of all items of a table
+  private _linkages(
+    table: string,
+    items: Rlmap[],
+    columns: Rlcolumns | undefined = this.data[table]?.['_columns'],
+  ): Rllinkage[] {
+    const result: Rllinkage[] = [];
+    for (const item of items) {
+      for (const { column, ...target } of this._links(item, columns)) {
+        result.push({
+          source: { table, hash: item._hash!, column },
+          target,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  // ...........................................................................
+  /// Creates the backlink index for all rows
+  private _createBacklinks(): BacklinkIndex {
+    const links: Rllinkage[] = [];
+    for (const [table, tableData] of Object.entries(this.dataIndexed)) {
+      links.push(...this._linkages(table, Object.values(tableData)));
+    }
+
+    return new BacklinkIndex().add(links);
+  }
+
+  // ...........................................................................
+  /// Returns all rows that link to one of the targets but are not targets
+  private _rowsLinkingTo(
+    targets: Record<string, Set<string>>,
+  ): { source: RowRef; target: RowRef }[] {
+    const result: { source: RowRef; target: RowRef }[] = [];
+
+    for (const [table, hashes] of Object.entries(targets)) {
+      for (const hash of hashes) {
+        for (const source of this.backlinks.referencedBy(table, hash)) {
+          if (targets[source.table]?.has(source.hash)) continue;
+          result.push({
+            source: { table: source.table, hash: source.hash },
+            target: { table, hash },
+          });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  // ...........................................................................
+  /// Returns a new instance without the given rows.
+  ///
+  /// Tables without removed rows are shared with this instance.
+  private _remove(removed: Record<string, Set<string>>): Rljson {
+    const data: Rltables = { ...this.data };
+    const dataIndexed: Rltables = { ...this.dataIndexed };
+    const indexes: Rlindexes = { ...this.indexes };
+    const removedLinks: Rllinkage[] = [];
+
+    for (const [table, hashes] of Object.entries(removed)) {
+      const tableIndexed = { ...this.dataIndexed[table] };
+      for (const hash of hashes) {
+        delete tableIndexed[hash];
+      }
+
+      const removedItems = [...hashes].map(
+        (hash) => this.dataIndexed[table][hash],
+      );
+      removedLinks.push(...this._linkages(table, removedItems));
+
+      // Update secondary indexes
+      if (this.indexes[table] != null) {
+        indexes[table] = this._updateIndexes(table, (index) =>
+          index.remove(removedItems),
+        );
+      }
+
+      // Table hash needs to be recalculated
+      const { _hash, ...tableWithoutHash } = this.data[table];
+      data[table] = {
+        ...tableWithoutHash,
+        _data: this.data[table]['_data'].filter(
+          (item: Rlmap) => !hashes.has(item._hash!),
+        ),
+      };
+      dataIndexed[table] = tableIndexed;
+    }
+
+    // Recalc main hashes
+    delete data._hash;
+
+    this.jsonJash.apply(data, {
+      updateExistingHashes: false,
+      throwIfOnWrongHashes: false,
+      inPlace: true,
+    });
+
+    return new Rljson({
+      data,
+      dataIndexed,
+      indexes,
+      backlinks: this.backlinks.remove(removedLinks),
+      subscriptions: this.subscriptions.derive(),
+    });
+  }
+
+  // ...........................................................................
+  /// Returns a new instance without the given tables
+  private _dropTables(tables: string[]): Rljson {
+    if (tables.length === 0) {
+      return this;
+    }
+
+    // Remove all rows first to update backlinks
+    const removed: Record<string, Set<string>> = {};
+    for (const table of tables) {
+      removed[table] = new Set(Object.keys(this.tableIndexed(table)));
+    }
+
+    const { data, dataIndexed, indexes, backlinks } = this._remove(removed);
+    for (const table of tables) {
+      delete data[table];
+      delete dataIndexed[table];
+      delete indexes[table];
+    }
+
+    // Recalc main hashes
+    delete data._hash;
+
+    this.jsonJash.apply(data, {
+      updateExistingHashes: false,
+      throwIfOnWrongHashes: false,
+      inPlace: true,
+    });
+
+    return new Rljson({
+      data,
+      dataIndexed,
+      indexes,
+      backlinks,
+      subscriptions: this.subscriptions.derive(),
+    });
+  }
+
+  // ...........................................................................
+  /// Returns a new instance where the given tables are replaced.
+  ///
+  /// The _data of the given tables contains the hashes of existing rows
+  /// in their new order. Throws when these are not exactly the rows of
+  /// the table.
+  private _replaceTables(tables: Record<string, Rlmap>): Rljson {
+    if (Object.keys(tables).length === 0) {
+      return this;
+    }
+
+    const data: Rltables = { ...this.data };
+    for (const [table, { _data, ...header }] of Object.entries(tables)) {
+      const hashes = new Set<string>(_data);
+      if (
+        hashes.size !== _data.length ||
+        hashes.size !== Object.keys(this.dataIndexed[table]).length
+      ) {
+        throw new Error(
+          `Row order of table "${table}" does not match its rows.`,
+        );
+      }
+
+      data[table] = {
+        ...header,
+        _data: [...hashes].map((hash) => (this as Rljson).row(table, hash)),
+      };
+    }
+
+    // Recalc main hashes
+    delete data._hash;
+
+    this.jsonJash.apply(data, {
+      updateExistingHashes: false,
+      throwIfOnWrongHashes: false,
+      inPlace: true,
+    });
+
+    return new Rljson({
+      data,
+      dataIndexed: this.dataIndexed,
+      indexes: this.indexes,
+      backlinks: this.backlinks,
+      subscriptions: this.subscriptions.derive(),
+    });
+  }
+
+  // ...........................................................................
+  /// Checks added columns and added rows against declared columns
+  private _checkColumns(data: Rltables): void {
+    for (const table of Object.keys(data)) {
+      if (table === '_hash') continue;
+
+      const addedColumns: Rlcolumns | undefined = data[table]['_columns'];
+      const existingColumns: Rlcolumns | undefined =
+        this.data[table]?.['_columns'];
+
+      if (addedColumns != null) {
+        Schema.checkColumns(table, addedColumns);
+
+        if (
+          existingColumns != null &&
+          !Schema.equals(existingColumns, addedColumns)
+        ) {
+          throw new Error(`Columns of table "${table}" must not be changed.`);
+        }
+      }
+
+      const columns = existingColumns ?? addedColumns;
+      if (columns == null) continue;
+
+      // Existing rows need to be checked when columns are declared later
+      const rows: Rlmap[] = [...data[table]['_data']];
+      if (existingColumns == null && this.data[table] != null) {
+        rows.push(...this.data[table]['_data']);
+      }
+
+      for (const row of rows) {
+        Schema.checkRow(table, columns, row);
+      }
+    }
+  }
+
   // ...........................................................................
   /// Turns data into a map
   private _toMap(data: Rltables): Record<string, any> {
@@ -624,11 +1692,17 @@ export interface Rltables {
 export interface RljsonConstructorParams {
   data: Rltables;
   dataIndexed: Rltables;
+  indexes?: Rlindexes;
+  backlinks?: BacklinkIndex;
+  subscriptions?: Subscriptions;
 }
 
 export interface QueryOptions {
   table: string;
-  where: (item: Rlmap) => boolean;
+  where?: ((item: Rlmap) => boolean) | Rlwhere;
+  orderBy?: Rlorder[];
+  offset?: number;
+  limit?: number;
 }
 
 export interface GetValue {
@@ -637,6 +1711,10 @@ export interface GetValue {
   followLink?: string[];
 }
 
+export interface ResolveOptions {
+  depth: number;
+}
+
 export interface HashOptions {
   table: string;
   index: number;
@@ -647,7 +1725,63 @@ export interface FromJsonOptions {
   updateHashes: boolean;
 }
 
+export interface RowRef {
+  table: string;
+  hash: string;
+}
+
+export interface Rllink extends RowRef {
+  column: string;
+}
+
+export interface RlbrokenLink {
+  sourceTable: string;
+  sourceHash: string;
+  column: string;
+  targetTable: string;
+  targetHash: string;
+  reason: 'missingTable' | 'missingRow';
+}
+
+export interface RljsonDiff {
+  rootHashChanged: boolean;
+  addedTables: string[];
+  removedTables: string[];
+  tables: Record<string, RltableDiff>;
+}
+
+export interface RltableDiff {
+  addedRows: string[];
+  removedRows: string[];
+}
+
+export interface Rlpatch {
+  baseHash: string;
+  resultHash: string;
+  createdTables: Record<string, Rlmap>;
+
+  /// Headers of changed tables. _data contains the hashes of all rows
+  /// in their resulting order.
+  changedTables: Record<string, Rlmap>;
+  removedTables: string[];
+  addedRows: Record<string, Rlmap[]>;
+  removedRows: Record<string, string[]>;
+}
+
+export interface RemoveRowsOptions {
+  cascade: boolean;
+}
+
 export interface AddDataOptions {
   validateHashes: boolean;
   updateHashes: boolean;
+
+  /// Throws if added rows link to missing rows
+  checkLinks: boolean;
+}
+
+/// A merged instance and the rows added to it
+interface MergeResult {
+  rljson: Rljson;
+  added: Record<string, Rlmap[]>;
 }
@@ -0,0 +1,179 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Rlmap } from './rljson.ts';
+
+/// Validates tables against the columns declared in their _columns object
+///
+/// A table can optionally declare its columns:
+///
+/// ```json
+/// {
+///   person: {
+///     _columns: {
+///       name: { type: 'string' },
+///       age: { type: 'number', nullable: true },
+///       addressRef: { type: 'ref', table: 'address' },
+///       tagRefs: { type: 'refs', table: 'tag' },
+///       friendRef: { type: 'ref', table: 'person', nullable: true },
+///     },
+///     _data: [...],
+///   },
+/// }
+/// ```
+///
+/// Columns of type ref end with Ref, columns of type refs end with Refs.
+/// They link to the declared table. Without declared table, they link to
+/// the table named like the column without Ref or Refs.
+///
+/// _columns is part of the table and therefore part of the hashes.
+export class Schema {
+  // ...........................................................................
+  /// The types a column can have
+  static readonly types: RlcolumnType[] = [
+    'string',
+    'number',
+    'boolean',
+    'json',
+    'ref',
+    'refs',
+  ];
+
+  // ...........................................................................
+  /// Throws if the column definitions of a table are invalid
+  static checkColumns(table: string, columns: Rlcolumns): void {
+    if (columns == null || typeof columns !== 'object') {
+      throw new Error(`_columns of table "${table}" must be an object.`);
+    }
+
+    for (const [name, column] of Object.entries(columns)) {
+      if (name === '_hash') continue;
+
+      if (!Schema.types.includes(column?.type)) {
+        throw new Error(
+          `Column "${name}" in table "${table}" has invalid type "${column?.type}".`,
+        );
+      }
+
+      Schema._checkLinkColumn(table, name, column, 'ref', 'Ref');
+      Schema._checkLinkColumn(table, name, column, 'refs', 'Refs');
+
+      if (column.table != null && typeof column.table !== 'string') {
+        throw new Error(
+          `Column "${name}" in table "${table}" must link to a table name.`,
+        );
+      }
+    }
+  }
+
+  // ...........................................................................
+  /// Throws if a row does not match the column definitions
+  static checkRow(table: string, columns: Rlcolumns, row: Rlmap): void {
+    // Check for unknown columns
+    for (const key of Object.keys(row)) {
+      if (key === '_hash') continue;
+      if (columns[key] == null) {
+        throw new Error(`Table "${table}" has no column "${key}".`);
+      }
+    }
+
+    // Check values
+    for (const [name, column] of Object.entries(columns)) {
+      if (name === '_hash') continue;
+
+      const value = row[name];
+      if (value == null) {
+        if (!column.nullable) {
+          throw new Error(
+            `Column "${name}" in table "${table}" must not be null.`,
+          );
+        }
+        continue;
+      }
+
+      if (!Schema._hasType(value, column.type)) {
+        throw new Error(
+          `Column "${name}" in table "${table}" must be of type "${column.type}".`,
+        );
+      }
+    }
+  }
+
+  // ...........................................................................
+  /// Returns true if both column definitions are the same.
+  /// Hashes are ignored.
+  static equals(a: Rlcolumns, b: Rlcolumns): boolean {
+    const strip = (columns: Rlcolumns) =>
+      JSON.stringify(
+        Object.keys(columns)
+          .filter((name) => name !== '_hash')
+          .sort()
+          .map((name) => {
+            const { _hash, ...column } = columns[name];
+            return [name, column.type, column.nullable ?? false, column.table];
+          }),
+      );
+
+    return strip(a) === strip(b);
+  }
+
+  // ...........................................................................
+  /// Link columns of type must end with suffix and vice versa
+  private static _checkLinkColumn(
+    table: string,
+    name: string,
+    column: Rlcolumn,
+    type: RlcolumnType,
+    suffix: string,
+  ): void {
+    const isLink = column.type === type;
+    if (isLink && !name.endsWith(suffix)) {
+      throw new Error(
+        `Column "${name}" in table "${table}" is of type "${type}" but does not end with "${suffix}".`,
+      );
+    }
+
+    if (!isLink && name.endsWith(suffix)) {
+      throw new Error(
+        `Column "${name}" in table "${table}" ends with "${suffix}" but is not of type "${type}".`,
+      );
+    }
+  }
+
+  // ...........................................................................
+  private static _hasType(value: any, type: RlcolumnType): boolean {
+    switch (type) {
+      case 'string':
+      case 'ref':
+        return typeof value === 'string';
+      case 'number':
+        return typeof value === 'number';
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'json':
+        return typeof value === 'object';
+      case 'refs':
+        return (
+          Array.isArray(value) &&
+          value.every((hash) => typeof hash === 'string')
+        );
+    }
+  }
+}
+
+export type RlcolumnType =
+  'string' | 'number' | 'boolean' | 'json' | 'ref' | 'refs';
+
+export interface Rlcolumn {
+  type: RlcolumnType;
+  nullable?: boolean;
+  table?: string;
+  _hash?: string;
+}
+
+export interface Rlcolumns {
+  [column: string]: Rlcolumn;
+}
@@ -0,0 +1,293 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Rljson, Rlmap, Rltables } from './rljson.ts';
+
+/// Exports Rljson into SQLite databases and imports it back
+///
+/// Each rljson table becomes an SQL table with _hash as primary key.
+/// Columns ending with Ref become foreign keys of the linked table.
+/// Values are stored as SQL values so that they can be queried:
+///
+/// - strings, numbers and refs as they are
+/// - booleans as 0 and 1
+/// - objects and arrays as JSON text
+/// - columns containing values of different types as JSON text
+///
+/// Additionally the tables _rljsonTables and _rljsonColumns store
+/// everything needed to restore the exact rows and hashes. Row order
+/// is kept using the rowid of SQLite.
+///
+/// The database is passed by the caller, e.g. a `better-sqlite3`
+/// database created with `new Database('data.sqlite')`. Only the
+/// functions listed in RlsqliteDatabase are used.
+export class Sqlite {
+  // ...........................................................................
+  /// Writes all tables of rljson into an empty database.
+  ///
+  /// Foreign keys are not enforced while writing. Broken links of
+  /// rljson can be found using `PRAGMA foreign_key_check` afterwards.
+  static export(rljson: Rljson, db: RlsqliteDatabase): void {
+    const foreignKeys = db.pragma('foreign_keys', { simple: true });
+    db.pragma('foreign_keys = OFF');
+
+    try {
+      Sqlite._export(rljson, db);
+    } finally {
+      db.pragma(`foreign_keys = ${foreignKeys}`);
+    }
+  }
+
+  // ...........................................................................
+  /// Reads an Rljson instance written by export()
+  static import(db: RlsqliteDatabase): Rljson {
+    const data: Rltables = {};
+
+    const tables = db
+      .prepare('SELECT "name", "header" FROM "_rljsonTables" ORDER BY rowid')
+      .all() as { name: string; header: string }[];
+
+    for (const { name, header } of tables) {
+      const columns = db
+        .prepare(
+          'SELECT "name", "type" FROM "_rljsonColumns" ' +
+            'WHERE "tableName" = ? ORDER BY rowid',
+        )
+        .all(name) as SqliteColumn[];
+
+      const sqlRows = db
+        .prepare(`SELECT * FROM ${Sqlite.quote(name)} ORDER BY rowid`)
+        .all() as Rlmap[];
+
+      data[name] = {
+        ...JSON.parse(header),
+        _data: sqlRows.map((sqlRow) => Sqlite._decodeRow(columns, sqlRow)),
+      };
+    }
+
+    return Rljson.fromJson(data);
+  }
+
+  // ...........................................................................
+  /// Quotes an SQL identifier
+  static quote(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+
+  // ...........................................................................
+  private static _export(rljson: Rljson, db: RlsqliteDatabase): void {
+    db.transaction(() => {
+      db.exec(
+        'CREATE TABLE "_rljsonTables" ("name" TEXT PRIMARY KEY, "header" TEXT)',
+      );
+      db.exec(
+        'CREATE TABLE "_rljsonColumns" ' +
+          '("tableName" TEXT, "name" TEXT, "type" TEXT, ' +
+          'PRIMARY KEY ("tableName", "name"))',
+      );
+
+      for (const table of Object.keys(rljson.dataIndexed)) {
+        Sqlite._exportTable(rljson, db, table);
+      }
+    })();
+  }
+
+  // ...........................................................................
+  private static _exportTable(
+    rljson: Rljson,
+    db: RlsqliteDatabase,
+    table: string,
+  ): void {
+    const { _data, _hash, ...header } = rljson.table(table);
+    const rows = _data as Rlmap[];
+    const columns = Sqlite._columnTypes(rows);
+
+    // Write meta data
+    db.prepare(
+      'INSERT INTO "_rljsonTables" ("name", "header") VALUES (?, ?)',
+    ).run(table, JSON.stringify(header));
+
+    const insertColumn = db.prepare(
+      'INSERT INTO "_rljsonColumns" ("tableName", "name", "type") ' +
+        'VALUES (?, ?, ?)',
+    );
+
+    for (const { name, type } of columns) {
+      insertColumn.run(table, name, type);
+    }
+
+    // Create the table
+    const definitions = ['"_hash" TEXT PRIMARY KEY', '"_nulls" TEXT'];
+    for (const { name, type } of columns) {
+      definitions.push(Sqlite._columnDefinition(rljson, table, name, type));
+    }
+
+    db.exec(`CREATE TABLE ${Sqlite.quote(table)} (${definitions.join(', ')})`);
+
+    // Write the rows
+    const names = ['_hash', '_nulls', ...columns.map(({ name }) => name)];
+    const insertRow = db.prepare(
+      `INSERT INTO ${Sqlite.quote(table)} ` +
+        `(${names.map(Sqlite.quote).join(', ')}) ` +
+        `VALUES (${names.map(() => '?').join(', ')})`,
+    );
+
+    for (const row of rows) {
+      insertRow.run(Sqlite._encodeRow(columns, row));
+    }
+  }
+
+  // ...........................................................................
+  /// Returns the SQL definition of a column
+  private static _columnDefinition(
+    rljson: Rljson,
+    table: string,
+    name: string,
+    type: SqliteColumnType,
+  ): string {
+    const sqlType =
+      type === 'number' ? 'NUMERIC' : type === 'boolean' ? 'INTEGER' : 'TEXT';
+    let definition = `${Sqlite.quote(name)} ${sqlType}`;
+
+    // Links become foreign keys when the linked table exists
+    const targetTable = rljson.linkedTable(table, name);
+    if (name.endsWith('Ref') && rljson.hasTable(targetTable!)) {
+      definition += ` REFERENCES ${Sqlite.quote(targetTable!)}("_hash")`;
+    }
+
+    return definition;
+  }
+
+  // ...........................................................................
+  /// Returns the columns of the rows and the type of their values
+  private static _columnTypes(rows: Rlmap[]): SqliteColumn[] {
+    const types = new Map<string, SqliteColumnType>();
+
+    for (const row of rows) {
+      for (const [name, value] of Object.entries(row)) {
+        if (name === '_hash') continue;
+
+        const type = Sqlite._type(value);
+        const existing = types.get(name);
+        if (existing == null || existing === 'null') {
+          types.set(name, type);
+        } else if (type !== 'null' && type !== existing) {
+          types.set(name, 'mixed');
+        }
+      }
+    }
+
+    return [...types].map(([name, type]) => ({ name, type }));
+  }
+
+  // ...........................................................................
+  private static _type(value: any): SqliteColumnType {
+    if (value == null) {
+      return 'null';
+    }
+
+    switch (typeof value) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+        return typeof value as SqliteColumnType;
+      default:
+        return 'json';
+    }
+  }
+
+  // ...........................................................................
+  private static _encodeRow(columns: SqliteColumn[], row: Rlmap): any[] {
+    const nulls: string[] = [];
+    const values: any[] = [];
+
+    for (const { name, type } of columns) {
+      const value = row[name];
+
+      if (value === null) {
+        nulls.push(name);
+      }
+
+      if (value == null) {
+        values.push(null);
+        continue;
+      }
+
+      switch (type) {
+        case 'boolean':
+          values.push(value ? 1 : 0);
+          break;
+        case 'json':
+        case 'mixed':
+          values.push(JSON.stringify(value));
+          break;
+        default:
+          values.push(value);
+      }
+    }
+
+    return [
+      row._hash,
+      nulls.length > 0 ? JSON.stringify(nulls) : null,
+      ...values,
+    ];
+  }
+
+  // ...........................................................................
+  private static _decodeRow(columns: SqliteColumn[], sqlRow: Rlmap): Rlmap {
+    const row: Rlmap = {};
+
+    for (const { name, type } of columns) {
+      const value = sqlRow[name];
+      if (value == null) continue;
+
+      switch (type) {
+        case 'boolean':
+          row[name] = value === 1;
+          break;
+        case 'json':
+        case 'mixed':
+          row[name] = JSON.parse(value);
+          break;
+        default:
+          row[name] = value;
+      }
+    }
+
+    // Restore keys explicitly set to null
+    for (const name of JSON.parse(sqlRow['_nulls'] ?? '[]')) {
+      row[name] = null;
+    }
+
+    row._hash = sqlRow['_hash'];
+    return row;
+  }
+}
+
+/// The parts of a SQLite database used by Sqlite.
+/// A `better-sqlite3` database provides all of them.
+export interface RlsqliteDatabase {
+  prepare(sql: string): RlsqliteStatement;
+  exec(sql: string): unknown;
+  pragma(sql: string, options?: { simple?: boolean }): unknown;
+  transaction(fn: () => void): () => void;
+}
+
+/// A prepared statement of RlsqliteDatabase
+export interface RlsqliteStatement {
+  run(...params: any[]): unknown;
+  all(...params: any[]): unknown[];
+}
+
+/// The type of the values of a column
+type SqliteColumnType =
+  'string' | 'number' | 'boolean' | 'json' | 'mixed' | 'null';
+
+/// A column as stored in _rljsonColumns
+interface SqliteColumn {
+  name: string;
+  type: SqliteColumnType;
+}
@@ -0,0 +1,160 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Rljson, Rlmap } from './rljson.ts';
+
+/// Notifies listeners about rows added to an Rljson instance
+///
+/// Instances derived from an instance, e.g. by addData() or addRow(),
+/// get subscriptions derived from its subscriptions. Changes are
+/// reported to the listeners of the instance and of the instances it
+/// was derived from after they were subscribed to, but never to
+/// listeners of derived instances:
+///
+/// ```
+/// const unsubscribe = rljson.subscribe(render, { table: 'person' });
+/// rljson = rljson.addRow('person', { name: 'Ann' }); // Calls render
+/// unsubscribe();
+/// ```
+///
+/// Derived subscriptions only refer to ancestors having listeners.
+/// Thus a long series of derived instances does not keep its ancestors
+/// in memory.
+///
+/// Listeners can subscribe to the database, to a table or to a row hash.
+/// Listeners are called synchronously after the new instance was created.
+/// Errors thrown by listeners don't stop the other listeners. They are
+/// rethrown asynchronously.
+export class Subscriptions {
+  // ...........................................................................
+  /// Creates subscriptions. Changes are also reported to the listeners
+  /// parent and its ancestors have at the time of creation.
+  constructor(parent?: Subscriptions) {
+    this._ancestors = parent?._listened() ?? [];
+  }
+
+  // ...........................................................................
+  /// Returns subscriptions for an instance derived from this one
+  derive(): Subscriptions {
+    return new Subscriptions(this);
+  }
+
+  // ...........................................................................
+  /// Returns true if neither this nor an ancestor has listeners
+  get isEmpty(): boolean {
+    return this._listened().length === 0;
+  }
+
+  // ...........................................................................
+  private readonly _subscriptions = new Set<Subscription>();
+
+  /// The ancestors which had listeners when this was derived
+  private readonly _ancestors: Subscriptions[];
+
+  // ...........................................................................
+  /// Calls listener for changes matching options.
+  ///
+  /// Without table and hash, listener is called for all changes.
+  /// With table, it is called when the table is created or rows are added.
+  /// With hash, it is called when a row with the hash is added.
+  ///
+  /// Returns a function removing the subscription.
+  subscribe(
+    listener: RlchangeListener,
+    options: Partial<SubscribeOptions> = {},
+  ): () => void {
+    const subscription: Subscription = { listener, ...options };
+    this._subscriptions.add(subscription);
+    return () => {
+      this._subscriptions.delete(subscription);
+    };
+  }
+
+  // ...........................................................................
+  /// Calls the listeners of this and of the ancestors matching the change
+  notify(change: RlchangeEvent): void {
+    for (const s of this._listened()) {
+      // Listeners may unsubscribe while being notified
+      for (const subscription of [...s._subscriptions]) {
+        if (Subscriptions._matches(subscription, change)) {
+          Subscriptions._call(subscription.listener, change);
+        }
+      }
+    }
+  }
+
+  // ...........................................................................
+  /// Returns this and the ancestors currently having listeners
+  private _listened(): Subscriptions[] {
+    const result = this._ancestors.filter((s) => s._subscriptions.size > 0);
+    return this._subscriptions.size > 0 ? [this, ...result] : result;
+  }
+
+  // ...........................................................................
+  /// Calls a listener. Errors are rethrown asynchronously.
+  private static _call(
+    listener: RlchangeListener,
+    change: RlchangeEvent,
+  ): void {
+    try {
+      listener(change);
+    } catch (error) {
+      setTimeout(() => {
+        throw error;
+      });
+    }
+  }
+
+  // ...........................................................................
+  private static _matches(
+    { table, hash }: Subscription,
+    { added }: RlchangeEvent,
+  ): boolean {
+    if (table != null && added[table] == null) {
+      return false;
+    }
+
+    if (hash == null) {
+      return true;
+    }
+
+    const tables = table != null ? [table] : Object.keys(added);
+    return tables.some((t) => added[t].some((row) => row._hash === hash));
+  }
+}
+
+/// Describes rows added to an Rljson instance
+export interface RlchangeEvent {
+  /// The new instance
+  rljson: Rljson;
+
+  /// The added rows of each changed table.
+  /// Created tables are contained, even without rows.
+  added: Record<string, Rlmap[]>;
+
+  /// The new hashes of the changed tables
+  tableHashes: Record<string, string>;
+
+  /// The new root hash
+  hash: string;
+}
+
+/// A function called on changes
+export type RlchangeListener = (change: RlchangeEvent) => void;
+
+/// Options for Rljson.subscribe()
+export interface SubscribeOptions {
+  /// Only changes of this table are reported
+  table: string;
+
+  /// Only additions of the row with this hash are reported
+  hash: string;
+}
+
+/// A listener and what it listens to
+interface Subscription extends Partial<SubscribeOptions> {
+  listener: RlchangeListener;
+}
@@ -0,0 +1,214 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Rljson, Rlmap, Rltables } from './rljson.ts';
+import { Rlcolumns } from './schema.ts';
+
+/// A transport agnostic protocol pulling rows from a remote replica
+///
+/// All functions are pure. They take a message and return the next one:
+///
+/// ```
+/// local                        remote
+/// start()          -- root --> respond()
+/// receive() <-- tables/inSync --
+/// receive()    -- getRowHashes --> respond()
+/// receive() <-- rowHashes --
+/// receive()    -- getRows --> respond()
+/// receive() <-- rows --
+/// ```
+///
+/// Only tables with different hashes and only missing rows are
+/// transferred. Column declarations missing locally are transferred
+/// too. Rows are never removed. To sync in both directions, both
+/// replicas pull from each other.
+///
+/// The rows of pulled tables are sorted by hash. Thus replicas holding
+/// the same rows end with the same hashes after pulling from each other.
+///
+/// The hashes of received rows are verified.
+export class Sync {
+  // ...........................................................................
+  /// Returns the first message to be sent to the remote
+  static start(local: Rljson): RlsyncMessage {
+    return { type: 'root', hash: local.data._hash };
+  }
+
+  // ...........................................................................
+  /// Answers a message received from a pulling replica
+  static respond(remote: Rljson, message: RlsyncMessage): RlsyncMessage {
+    switch (message.type) {
+      case 'root': {
+        if (message.hash === remote.data._hash) {
+          return { type: 'inSync' };
+        }
+
+        const tables: Record<string, string> = {};
+        for (const table of Object.keys(remote.dataIndexed)) {
+          tables[table] = remote.table(table)._hash;
+        }
+
+        return { type: 'tables', tables };
+      }
+
+      case 'getRowHashes': {
+        const tables: Record<string, string[]> = {};
+        const columns: Record<string, Rlcolumns> = {};
+        for (const table of message.tables) {
+          const { _data, _columns } = remote.table(table);
+          tables[table] = _data.map((row: Rlmap) => row._hash);
+          if (_columns != null) {
+            columns[table] = _columns;
+          }
+        }
+
+        return { type: 'rowHashes', tables, columns };
+      }
+
+      case 'getRows': {
+        const tables: Rltables = {};
+        for (const [table, hashes] of Object.entries(message.rows)) {
+          const { _data, _hash, ...header } = remote.table(table);
+          tables[table] = {
+            ...header,
+            _data: hashes.map((hash) => remote.row(table, hash)),
+          };
+        }
+
+        return { type: 'rows', tables };
+      }
+
+      default:
+        throw new Error(`Unexpected sync message "${message.type}".`);
+    }
+  }
+
+  // ...........................................................................
+  /// Handles an answer of the remote.
+  ///
+  /// Returns the updated local replica and the next message to be sent.
+  /// When no message is returned, the sync is complete.
+  static receive(local: Rljson, message: RlsyncMessage): RlsyncResult {
+    switch (message.type) {
+      case 'inSync':
+        return { rljson: local };
+
+      case 'tables': {
+        const tables = Object.entries(message.tables)
+          .filter(([table, hash]) => local.data[table]?._hash !== hash)
+          .map(([table]) => table);
+
+        return Sync._next(local, tables.length > 0, {
+          type: 'getRowHashes',
+          tables,
+        });
+      }
+
+      case 'rowHashes': {
+        const rows: Record<string, string[]> = {};
+        const complete: string[] = [];
+        for (const [table, hashes] of Object.entries(message.tables)) {
+          const localRows = local.dataIndexed[table] ?? {};
+          const missing = hashes.filter((hash) => localRows[hash] == null);
+          const missingColumns =
+            message.columns[table] != null &&
+            local.data[table]?.['_columns'] == null;
+
+          // Missing tables and columns are requested even without rows
+          if (missing.length > 0 || !local.hasTable(table) || missingColumns) {
+            rows[table] = missing;
+          } else {
+            complete.push(table);
+          }
+        }
+
+        return Sync._next(
+          local.sortRows(complete),
+          Object.keys(rows).length > 0,
+          {
+            type: 'getRows',
+            rows,
+          },
+        );
+      }
+
+      case 'rows': {
+        // Hash rows. Throw on wrong hashes.
+        const tables: Rltables = {};
+        for (const [table, { _data, ...header }] of Object.entries(
+          message.tables,
+        )) {
+          tables[table] = {
+            ...header,
+            _data: _data.map((row: Rlmap) =>
+              local.jsonJash.apply(row, {
+                inPlace: false,
+                updateExistingHashes: false,
+                throwIfOnWrongHashes: true,
+              }),
+            ),
+          };
+        }
+
+        return {
+          rljson: local
+            .addData(tables, { updateHashes: false })
+            .sortRows(Object.keys(tables)),
+        };
+      }
+
+      default:
+        throw new Error(`Unexpected sync message "${message.type}".`);
+    }
+  }
+
+  // ...........................................................................
+  /// Pulls all missing rows from a remote replica.
+  ///
+  /// send delivers a message to the remote and returns its answer.
+  static async pull(
+    local: Rljson,
+    send: (message: RlsyncMessage) => Promise<RlsyncMessage>,
+  ): Promise<Rljson> {
+    let message: RlsyncMessage | undefined = Sync.start(local);
+
+    while (message != null) {
+      const answer = await send(message);
+      ({ rljson: local, message } = Sync.receive(local, answer));
+    }
+
+    return local;
+  }
+
+  // ...........................................................................
+  private static _next(
+    local: Rljson,
+    hasMessage: boolean,
+    message: RlsyncMessage,
+  ): RlsyncResult {
+    return hasMessage ? { rljson: local, message } : { rljson: local };
+  }
+}
+
+/// The messages exchanged between replicas
+export type RlsyncMessage =
+  | { type: 'root'; hash: string }
+  | { type: 'inSync' }
+  | { type: 'tables'; tables: Record<string, string> }
+  | { type: 'getRowHashes'; tables: string[] }
+  | {
+      type: 'rowHashes';
+      tables: Record<string, string[]>;
+      columns: Record<string, Rlcolumns>;
+    }
+  | { type: 'getRows'; rows: Record<string, string[]> }
+  | { type: 'rows'; tables: Rltables };
+
+/// The result of handling an answer of the remote
+export interface RlsyncResult {
+  rljson: Rljson;
+  message?: RlsyncMessage;
+}
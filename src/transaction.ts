@@ -0,0 +1,117 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Rljson, Rlmap, Rltables } from './rljson.ts';
+import { Rlcolumns } from './schema.ts';
+import { RlnewRow, RltableName } from './types.ts';
+
+/// Collects table creations and row additions and applies them at once
+///
+/// ```
+/// const result = rljson
+///   .transaction()
+///   .createTable('person', { name: { type: 'string' } })
+///   .addRow('person', { name: 'Ann' })
+///   .addRow('book', { title: 'Rljson', personRef: annHash })
+///   .commit();
+/// ```
+///
+/// commit() validates hashes, table names, columns and links of all
+/// collected changes. When everything is valid, the changes are merged
+/// into a new instance with a single recalculation of the root hash.
+/// Subscribers are notified once. Otherwise commit() throws and
+/// nothing is applied.
+export class Transaction<S = any> {
+  // ...........................................................................
+  /// Creates a transaction collecting changes of base
+  constructor(private readonly _base: Rljson<S>) {}
+
+  private _tables: Record<string, TransactionTable> = {};
+
+  // ...........................................................................
+  /// Returns true if no changes were collected
+  get isEmpty(): boolean {
+    return Object.keys(this._tables).length === 0;
+  }
+
+  // ...........................................................................
+  /// Collects the creation of a table.
+  /// Optionally columns can be declared which are checked for added rows.
+  createTable(table: RltableName<S>, columns?: Rlcolumns): Transaction<S> {
+    const entry = this._table(table);
+    entry.created = true;
+    if (columns != null) {
+      entry.columns = columns;
+    }
+
+    return this;
+  }
+
+  // ...........................................................................
+  /// Collects a row to be added to table.
+  /// The table needs to exist or to be created by the transaction.
+  addRow<T extends RltableName<S>>(
+    table: T,
+    row: RlnewRow<S, T>,
+  ): Transaction<S> {
+    this._table(table).rows.push(row as Rlmap);
+    return this;
+  }
+
+  // ...........................................................................
+  /// Returns a new instance containing all collected changes.
+  ///
+  /// Throws if a hash is wrong, a table does not exist, a table name is
+  /// invalid, a row does not match the declared columns or a link
+  /// points to a row neither existing nor added.
+  commit(): Rljson<S> {
+    const data: Rltables = {};
+
+    for (const [table, { created, columns, rows }] of Object.entries(
+      this._tables,
+    )) {
+      if (!created && !this._base.hasTable(table)) {
+        throw new Error(`Table not found: ${table}`);
+      }
+
+      // Hash rows. Throw on wrong hashes.
+      const hashed = new Map<string, Rlmap>();
+      for (const row of rows) {
+        const hashedRow = this._base.jsonJash.apply(row, {
+          inPlace: false,
+          updateExistingHashes: false,
+          throwIfOnWrongHashes: true,
+        });
+        hashed.set(hashedRow._hash!, hashedRow);
+      }
+
+      data[table] = { _data: [...hashed.values()] };
+      if (columns != null) {
+        data[table]['_columns'] = columns;
+      }
+    }
+
+    return this._base.addData(data, { updateHashes: false, checkLinks: true });
+  }
+
+  // ...........................................................................
+  /// Discards all collected changes
+  rollback(): void {
+    this._tables = {};
+  }
+
+  // ...........................................................................
+  private _table(table: string): TransactionTable {
+    return (this._tables[table] ??= { created: false, rows: [] });
+  }
+}
+
+/// The changes collected for a table
+interface TransactionTable {
+  created: boolean;
+  columns?: Rlcolumns;
+  rows: Rlmap[];
+}
@@ -0,0 +1,326 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Rljson, Rlmap } from './rljson.ts';
+import { Rlcolumn } from './schema.ts';
+
+/// Generates TypeScript types from existing rljson data
+///
+/// Each table becomes an interface. Columns get the types of the values
+/// found in the rows. Columns missing in some rows become optional.
+/// Links become `Ref<'table'>` and `Refs<'table'>`:
+///
+/// ```
+/// import type { Ref, Refs } from 'rljson';
+///
+/// export interface Book {
+///   title: string;
+///   year?: number;
+///   authorRef: Ref<'person'>;
+/// }
+///
+/// export type Schema = {
+///   book: Book;
+///   person: Person;
+/// };
+/// ```
+///
+/// Schema can be used to access the data typed,
+/// e.g. `Rljson.fromJson<Schema>(json)`.
+///
+/// Declared _columns are preferred to the values of the rows.
+export class TypeGenerator {
+  // ...........................................................................
+  /// Returns the observed types of all columns of all tables.
+  ///
+  /// Interface names don't collide with the schema name, Ref and Refs.
+  static describe(
+    rljson: Rljson,
+    options: Partial<TypeGeneratorOptions> = {},
+  ): RltypeDescription {
+    const { schemaName = 'Schema' } = options;
+    const result: RltypeDescription = {};
+    const names = new Set<string>([schemaName, 'Ref', 'Refs']);
+
+    for (const table of Object.keys(rljson.dataIndexed)) {
+      const columns = rljson.data[table]['_columns'];
+      const rows = Object.values(rljson.tableIndexed(table)) as Rlmap[];
+
+      result[table] = {
+        name: TypeGenerator._interfaceName(table, names),
+        columns:
+          columns != null
+            ? TypeGenerator._declaredColumns(rljson, table, rows)
+            : TypeGenerator._observedColumns(rljson, table, rows),
+      };
+    }
+
+    return result;
+  }
+
+  // ...........................................................................
+  /// Returns TypeScript source code with an interface for each table and
+  /// a schema type mapping table names to the interfaces.
+  static generate(
+    rljson: Rljson,
+    options: Partial<TypeGeneratorOptions> = {},
+  ): string {
+    const { schemaName = 'Schema', importFrom = 'rljson' } = options;
+    const description = TypeGenerator.describe(rljson, { schemaName });
+    const tables = Object.values(description);
+
+    const lines: string[] = [];
+
+    // Import Ref and Refs when needed
+    const linkTypes = (['ref', 'refs'] as const).filter((type) =>
+      tables.some(({ columns }) =>
+        Object.values(columns).some(({ types }) => types.includes(type)),
+      ),
+    );
+
+    if (linkTypes.length > 0) {
+      const names = linkTypes.map((type) => TypeGenerator._linkTypes[type]);
+      lines.push(`import type { ${names.join(', ')} } from '${importFrom}';`);
+      lines.push('');
+    }
+
+    // Write an interface for each table
+    for (const { name, columns } of tables) {
+      lines.push(`export interface ${name} {`);
+      for (const [column, type] of Object.entries(columns)) {
+        const key = TypeGenerator._key(column);
+        const optional = type.optional ? '?' : '';
+        lines.push(`  ${key}${optional}: ${TypeGenerator._type(type)};`);
+      }
+      lines.push('}');
+      lines.push('');
+    }
+
+    // Write the schema
+    lines.push(`export type ${schemaName} = {`);
+    for (const [table, { name }] of Object.entries(description)) {
+      lines.push(`  ${table}: ${name};`);
+    }
+    lines.push('};');
+
+    return lines.join('\n') + '\n';
+  }
+
+  // ...........................................................................
+  /// The order in which types are written
+  private static readonly _types: RlobservedType[] = [
+    'string',
+    'number',
+    'boolean',
+    'object',
+    'array',
+    'ref',
+    'refs',
+    'null',
+  ];
+
+  private static readonly _linkTypes = { ref: 'Ref', refs: 'Refs' };
+
+  // ...........................................................................
+  /// Returns the columns found in the rows
+  private static _observedColumns(
+    rljson: Rljson,
+    table: string,
+    rows: Rlmap[],
+  ): Record<string, RlobservedColumn> {
+    const types: Record<string, Set<RlobservedType>> = {};
+    const counts: Record<string, number> = {};
+
+    for (const row of rows) {
+      for (const [name, value] of Object.entries(row)) {
+        if (name === '_hash') continue;
+
+        const isLink = rljson.linkedTable(table, name) != null;
+        (types[name] ??= new Set()).add(
+          TypeGenerator._observedType(value, isLink),
+        );
+        counts[name] = (counts[name] ?? 0) + 1;
+      }
+    }
+
+    const result: Record<string, RlobservedColumn> = {};
+    for (const [name, observed] of Object.entries(types)) {
+      result[name] = TypeGenerator._column(rljson, table, name, {
+        types: [...observed],
+        optional: counts[name] < rows.length,
+      });
+    }
+
+    return result;
+  }
+
+  // ...........................................................................
+  /// Returns the columns declared in _columns.
+  /// Json columns get the types found in the rows.
+  private static _declaredColumns(
+    rljson: Rljson,
+    table: string,
+    rows: Rlmap[],
+  ): Record<string, RlobservedColumn> {
+    const columns = rljson.data[table]['_columns'] as Record<string, Rlcolumn>;
+    const result: Record<string, RlobservedColumn> = {};
+
+    for (const [name, { type, nullable = false }] of Object.entries(columns)) {
+      if (name === '_hash') continue;
+
+      const types = new Set<RlobservedType>();
+      if (type === 'json') {
+        for (const row of rows) {
+          if (row[name] == null) continue;
+          types.add(TypeGenerator._observedType(row[name], false));
+        }
+
+        if (types.size === 0) {
+          types.add('object').add('array');
+        }
+      } else {
+        types.add(type);
+      }
+
+      if (nullable) {
+        types.add('null');
+      }
+
+      result[name] = TypeGenerator._column(rljson, table, name, {
+        types: [...types],
+        optional: nullable,
+      });
+    }
+
+    return result;
+  }
+
+  // ...........................................................................
+  /// Sorts the types and adds the linked table to links
+  private static _column(
+    rljson: Rljson,
+    table: string,
+    name: string,
+    column: RlobservedColumn,
+  ): RlobservedColumn {
+    const types = TypeGenerator._types.filter((type) =>
+      column.types.includes(type),
+    );
+
+    const isLink = types.includes('ref') || types.includes('refs');
+    return isLink
+      ? { ...column, types, table: rljson.linkedTable(table, name) }
+      : { ...column, types };
+  }
+
+  // ...........................................................................
+  private static _observedType(value: any, isLink: boolean): RlobservedType {
+    if (value == null) {
+      return 'null';
+    }
+
+    if (Array.isArray(value)) {
+      return isLink ? 'refs' : 'array';
+    }
+
+    switch (typeof value) {
+      case 'number':
+      case 'boolean':
+        return typeof value as RlobservedType;
+      case 'string':
+        return isLink ? 'ref' : 'string';
+      default:
+        return 'object';
+    }
+  }
+
+  // ...........................................................................
+  /// Returns the TypeScript type of a column
+  private static _type({ types, table }: RlobservedColumn): string {
+    return types
+      .map((type) => {
+        switch (type) {
+          case 'object':
+            return 'Record<string, any>';
+          case 'array':
+            return 'any[]';
+          case 'ref':
+          case 'refs':
+            return `${TypeGenerator._linkTypes[type]}<${TypeGenerator._string(table!)}>`;
+          default:
+            return type;
+        }
+      })
+      .join(' | ');
+  }
+
+  // ...........................................................................
+  /// Returns a unique interface name for a table, e.g. Person for person
+  private static _interfaceName(table: string, names: Set<string>): string {
+    const name = table.charAt(0).toUpperCase() + table.slice(1);
+    let unique = name;
+    for (let i = 2; names.has(unique); i++) {
+      unique = `${name}${i}`;
+    }
+
+    names.add(unique);
+    return unique;
+  }
+
+  // ...........................................................................
+  /// Quotes keys which are no identifiers
+  private static _key(key: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)
+      ? key
+      : TypeGenerator._string(key);
+  }
+
+  // ...........................................................................
+  private static _string(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+}
+
+/// Options for TypeGenerator.generate()
+export interface TypeGeneratorOptions {
+  /// The name of the schema type
+  schemaName: string;
+
+  /// The module Ref and Refs are imported from
+  importFrom: string;
+}
+
+/// The types observed for a column
+export type RlobservedType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'ref'
+  | 'refs'
+  | 'null';
+
+/// A column and the types of its values
+export interface RlobservedColumn {
+  types: RlobservedType[];
+
+  /// True if the column is missing in some rows
+  optional: boolean;
+
+  /// The table linked by ref and refs columns
+  table?: string;
+}
+
+/// The types of a table
+export interface RltableDescription {
+  /// The name of the interface
+  name: string;
+  columns: Record<string, RlobservedColumn>;
+}
+
+/// The types of all tables
+export type RltypeDescription = Record<string, RltableDescription>;
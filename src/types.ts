@@ -0,0 +1,136 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import type { Rlmap } from './rljson.ts';
+
+// Types allowing to check table names, columns and links at compile time.
+//
+// A schema maps table names to row types. Links are declared with Ref
+// and Refs naming the linked table:
+//
+// ```
+// interface Person { name: string }
+// interface Book { title: string; authorRef: Ref<'person'> }
+// type Library = { person: Person; book: Book };
+//
+// const db = Rljson.fromJson<Library>({...});
+// db.value({ table: 'book', itemHash, followLink: ['authorRef', 'name'] });
+// ```
+//
+// Without schema, Rljson<any> keeps accepting any table and column.
+
+/// A link to a row of table T. At runtime a hash.
+export type Ref<T extends string> = string & { readonly __table?: T };
+
+/// A list of links to rows of table T
+export type Refs<T extends string> = Ref<T>[];
+
+/// The name of a table of schema S
+export type RltableName<S> = IsAny<S> extends true ? string : keyof S & string;
+
+/// A row of table T as stored, i.e. with hash
+export type RlrowOf<S, T> =
+  IsAny<S> extends true ? Rlmap : T extends keyof S ? Row<S, T> : never;
+
+/// A row to be added to table T, i.e. with optional hash
+export type RlnewRow<S, T> =
+  IsAny<S> extends true
+    ? Rlmap
+    : T extends keyof S
+      ? S[T] & { _hash?: string }
+      : never;
+
+/// The paths value() can follow, starting at table T
+export type RlfollowLink<S, T> =
+  IsAny<S> extends true ? string[] : T extends keyof S ? Paths<S, T> : never;
+
+/// The value returned by value() for path P
+export type RlvalueAt<S, T, P> =
+  IsAny<S> extends true
+    ? any
+    : T extends keyof S
+      ? P extends readonly string[]
+        ? ValueAt<S, T, P>
+        : Row<S, T>
+      : never;
+
+/// The columns select() accepts for table T, e.g. `authorRef/name`
+export type RlcolumnPath<S, T> =
+  IsAny<S> extends true
+    ? string
+    : T extends keyof S
+      ? Join<Paths<S, T>>
+      : never;
+
+/// A row returned by select() for columns C
+export type RlselectRow<S, T, C extends readonly string[]> =
+  IsAny<S> extends true
+    ? any[]
+    : T extends keyof S
+      ? { -readonly [I in keyof C]: SelectValue<S, T, Split<C[I] & string>> }
+      : never;
+
+// .............................................................................
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+type Row<S, T extends keyof S> = S[T] & { _hash: string };
+
+/// The table linked by a value of type Ref or Refs
+type LinkedTable<V> =
+  NonNullable<V> extends readonly (infer I)[] ? RefTable<I> : RefTable<V>;
+
+type RefTable<V> = '__table' extends keyof NonNullable<V>
+  ? NonNullable<NonNullable<V>['__table' & keyof NonNullable<V>]>
+  : never;
+
+/// The table of S linked by a column value or never
+type Linked<S, V> = LinkedTable<V> & keyof S;
+
+/// Limits the depth of paths for tables linking to each other
+type Prev = [never, 0, 1, 2, 3, 4];
+
+type Paths<S, T extends keyof S, D extends number = 5> = [D] extends [never]
+  ? never
+  : {
+      [K in keyof S[T] & string]: [Linked<S, S[T][K]>] extends [never]
+        ? [K]
+        : [K] | [K, ...Paths<S, Linked<S, S[T][K]>, Prev[D]>];
+    }[keyof S[T] & string];
+
+type ValueAt<S, T extends keyof S, P> = P extends readonly []
+  ? Row<S, T>
+  : P extends readonly [infer K extends keyof S[T], ...infer Rest]
+    ? [Linked<S, S[T][K]>] extends [never]
+      ? NonNullable<S[T][K]>
+      : OrNull<
+          S[T][K],
+          NonNullable<S[T][K]> extends readonly any[]
+            ? ValueAt<S, Linked<S, S[T][K]>, Rest>[]
+            : ValueAt<S, Linked<S, S[T][K]>, Rest>
+        >
+    : never;
+
+/// Empty links are followed to null
+type OrNull<V, R> = [V] extends [NonNullable<V>] ? R : R | null;
+
+/// select() returns columns without links as they are
+type SelectValue<S, T extends keyof S, P> = P extends [
+  infer K extends keyof S[T],
+]
+  ? [Linked<S, S[T][K]>] extends [never]
+    ? S[T][K]
+    : ValueAt<S, T, P>
+  : ValueAt<S, T, P>;
+
+type Join<P> = P extends [infer H extends string, ...infer Rest]
+  ? Rest extends []
+    ? H
+    : `${H}/${Join<Rest>}`
+  : never;
+
+type Split<P extends string> = P extends `${infer H}/${infer Rest}`
+  ? [H, ...Split<Rest>]
+  : [P];
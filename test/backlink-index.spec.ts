@@ -0,0 +1,68 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { expect, suite, test } from 'vitest';
+
+import { BacklinkIndex } from '../src/backlink-index';
+
+suite('BacklinkIndex', () => {
+  const a0 = { table: 'a', hash: 'a0', column: 'bRef' };
+  const a1 = { table: 'a', hash: 'a1', column: 'bRef' };
+  const c0 = { table: 'c', hash: 'c0', column: 'bRef' };
+  const b0 = { table: 'b', hash: 'b0' };
+  const b1 = { table: 'b', hash: 'b1' };
+
+  const index = new BacklinkIndex().add([
+    { source: a0, target: b0 },
+    { source: a1, target: b0 },
+    { source: c0, target: b1 },
+  ]);
+
+  suite('referencedBy(table, hash)', () => {
+    test('returns the rows linking to the row', () => {
+      expect(index.referencedBy('b', 'b0')).toEqual([a0, a1]);
+      expect(index.referencedBy('b', 'b1')).toEqual([c0]);
+    });
+
+    test('returns an empty list for rows without backlinks', () => {
+      expect(index.referencedBy('b', 'b2')).toEqual([]);
+      expect(index.referencedBy('x', 'b0')).toEqual([]);
+    });
+  });
+
+  suite('add(links)', () => {
+    test('returns a new index', () => {
+      const index2 = index.add([{ source: c0, target: b0 }]);
+      expect(index2.referencedBy('b', 'b0')).toEqual([a0, a1, c0]);
+      expect(index.referencedBy('b', 'b0')).toEqual([a0, a1]);
+    });
+  });
+
+  suite('remove(links)', () => {
+    test('returns a new index', () => {
+      const index2 = index.remove([
+        { source: a0, target: b0 },
+        { source: c0, target: b1 },
+        { source: c0, target: b0 },
+        { source: c0, target: { table: 'x', hash: 'x0' } },
+      ]);
+
+      expect(index2.referencedBy('b', 'b0')).toEqual([a1]);
+      expect(index2.referencedBy('b', 'b1')).toEqual([]);
+      expect(index.referencedBy('b', 'b0')).toEqual([a0, a1]);
+      expect(index.referencedBy('b', 'b1')).toEqual([c0]);
+    });
+
+    test('distinguishes links of different columns', () => {
+      const other = { ...a0, column: 'otherRef' };
+      const index2 = index
+        .add([{ source: other, target: b0 }])
+        .remove([{ source: a0, target: b0 }]);
+
+      expect(index2.referencedBy('b', 'b0')).toEqual([a1, other]);
+    });
+  });
+});
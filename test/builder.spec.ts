@@ -0,0 +1,139 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { expect, suite, test } from 'vitest';
+
+import { Builder } from '../src/builder';
+import { Rljson } from '../src/rljson';
+
+suite('Builder', () => {
+  const ref = Builder.ref;
+
+  suite('build()', () => {
+    test('hashes linked rows first', () => {
+      const rljson = new Builder()
+        .add('a', { bRef: ref('b'), value: 'a' })
+        .add('a', { bRef: ref('b'), value: 'a0' })
+        .add('b', { cRef: ref('c'), value: 'b' }, 'b')
+        .add('c', { dRef: ref('d'), value: 'c' }, 'c')
+        .add('d', { value: 'd', details: 'details about d' }, 'd')
+        .build();
+
+      const expected = Rljson.exampleWithDeepLink;
+      expect(rljson.data).toEqual(expected.data);
+      expect(Object.keys(rljson.dataIndexed)).toEqual(['d', 'c', 'b', 'a']);
+      expect(() => rljson.checkLinks()).not.toThrow();
+    });
+
+    test('resolves lists of links', () => {
+      const rljson = new Builder()
+        .add('post', { title: 'Hello', tagRefs: [ref('red'), ref('green')] })
+        .add('tag', { name: 'red' }, 'red')
+        .add('tag', { name: 'green' }, 'green')
+        .build();
+
+      expect(rljson.data).toEqual(Rljson.exampleWithLinkList.data);
+    });
+
+    test('keeps hashes and empty links', () => {
+      const base = Rljson.exampleWithLink;
+      const hash = base.hash({ table: 'tableA', index: 0 });
+
+      const rljson = new Builder(base)
+        .add('linkToTableA', { tableARef: hash, details: { _ref: 5 } })
+        .add('linkToTableA', { tableARef: null, _hash: 'ignored' })
+        .build();
+
+      expect(rljson.data.linkToTableA._data.length).toBe(3);
+      expect(rljson.data.linkToTableA._data[2].tableARef).toBeNull();
+      expect(() => rljson.checkLinks()).not.toThrow();
+    });
+
+    test('does not change the added rows', () => {
+      const meta = { a: 1 };
+      const tags = [{ name: 'red' }];
+
+      new Builder().add('a', { meta, tags }).build();
+      expect(meta).toEqual({ a: 1 });
+      expect(tags).toEqual([{ name: 'red' }]);
+    });
+
+    test('uses the declared tables of links', () => {
+      const base = Rljson.empty().createTable('book', {
+        authorRef: { type: 'ref', table: 'person' },
+      });
+
+      const rljson = new Builder(base)
+        .add('book', { authorRef: ref('ann') })
+        .add('person', { name: 'Ann' }, 'ann')
+        .build();
+
+      expect(() => rljson.checkLinks()).not.toThrow();
+      expect(rljson.data.book._data.length).toBe(1);
+    });
+
+    suite('throws', () => {
+      test('when an id is used twice', () => {
+        expect(() =>
+          new Builder().add('a', { x: 1 }, 'a').add('a', { x: 2 }, 'a'),
+        ).toThrow('Id "a" is used twice.');
+      });
+
+      test('when an id is not found', () => {
+        expect(() =>
+          new Builder().add('a', { bRef: ref('b') }).build(),
+        ).toThrow('Unresolved id "b" in column "bRef" of table "a".');
+      });
+
+      test('when ids are cyclic', () => {
+        const builder = new Builder()
+          .add('a', { bRef: ref('b') }, 'a')
+          .add('b', { cRefs: [ref('c')] }, 'b')
+          .add('c', { aRef: ref('a') }, 'c');
+
+        expect(() => builder.build()).toThrow('Cyclic ids: a -> b -> c -> a.');
+      });
+
+      test('when a row links to itself', () => {
+        expect(() =>
+          new Builder().add('a', { aRef: ref('a') }, 'a').build(),
+        ).toThrow('Cyclic ids: a -> a.');
+      });
+
+      test('when an id is a row of another table', () => {
+        expect(() =>
+          new Builder()
+            .add('a', { bRef: ref('c') })
+            .add('c', { x: 1 }, 'c')
+            .build(),
+        ).toThrow(
+          'Id "c" in column "bRef" of table "a" is a row of table "c" instead of "b".',
+        );
+      });
+
+      test('when a ref is not in a link column', () => {
+        expect(() => new Builder().add('a', { b: ref('b') }).build()).toThrow(
+          'Column "b" of table "a" contains a ref but is not a link.',
+        );
+      });
+    });
+  });
+
+  suite('hashes()', () => {
+    test('returns the hashes of all rows with id', () => {
+      const builder = new Builder()
+        .add('post', { title: 'Hello', tagRefs: [ref('red'), ref('green')] })
+        .add('tag', { name: 'red' }, 'red')
+        .add('tag', { name: 'green' }, 'green');
+
+      const rljson = builder.build();
+      expect(builder.hashes()).toEqual({
+        red: rljson.hash({ table: 'tag', index: 0 }),
+        green: rljson.hash({ table: 'tag', index: 1 }),
+      });
+    });
+  });
+});
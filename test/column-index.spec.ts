@@ -0,0 +1,155 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { expect, suite, test } from 'vitest';
+
+import { ColumnIndex, HashIndex, SortedIndex } from '../src/column-index';
+
+suite('ColumnIndex', () => {
+  const rows = [
+    { n: 3, _hash: 'h3' },
+    { n: 1, _hash: 'h1' },
+    { n: 2, _hash: 'h2' },
+    { n: 2, _hash: 'h2b' },
+    { n: null, _hash: 'hNull' },
+    { _hash: 'hMissing' },
+    { n: { x: 1 }, _hash: 'hObject' },
+  ];
+
+  suite('create(type, column, rows)', () => {
+    test('creates hash indexes', () => {
+      const index = ColumnIndex.create('hash', 'n', rows);
+      expect(index).toBeInstanceOf(HashIndex);
+      expect(index.type).toBe('hash');
+      expect(index.column).toBe('n');
+    });
+
+    test('creates sorted indexes', () => {
+      const index = ColumnIndex.create('sorted', 'n', rows);
+      expect(index).toBeInstanceOf(SortedIndex);
+      expect(index.type).toBe('sorted');
+    });
+  });
+
+  suite('key(value)', () => {
+    test('returns primitives', () => {
+      expect(ColumnIndex.key(5)).toBe(5);
+      expect(ColumnIndex.key('a')).toBe('a');
+      expect(ColumnIndex.key(false)).toBe(false);
+    });
+
+    test('returns null for null and undefined', () => {
+      expect(ColumnIndex.key(null)).toBe(null);
+      expect(ColumnIndex.key(undefined)).toBe(null);
+    });
+
+    test('returns undefined for objects and arrays', () => {
+      expect(ColumnIndex.key({})).toBeUndefined();
+      expect(ColumnIndex.key([])).toBeUndefined();
+    });
+  });
+
+  suite('HashIndex', () => {
+    const index = ColumnIndex.create('hash', 'n', rows);
+
+    suite('lookup(condition)', () => {
+      test('returns rows for equality conditions', () => {
+        expect(index.lookup(2)).toEqual(['h2', 'h2b']);
+        expect(index.lookup({ _eq: 1 })).toEqual(['h1']);
+        expect(index.lookup(null)).toEqual(['hNull', 'hMissing']);
+        expect(index.lookup(5)).toEqual([]);
+      });
+
+      test('returns rows for _in conditions', () => {
+        expect(index.lookup({ _in: [3, 1, 3] })).toEqual(['h3', 'h1']);
+      });
+
+      test('returns undefined for other conditions', () => {
+        expect(index.lookup({ _gt: 1 })).toBeUndefined();
+        expect(index.lookup({ x: 1 })).toBeUndefined();
+        expect(index.lookup({ _in: [{ x: 1 }] })).toBeUndefined();
+      });
+    });
+
+    test('add(rows) returns a new index', () => {
+      const index2 = index.add([
+        { n: 1, _hash: 'h1b' },
+        { n: 4, _hash: 'h4' },
+      ]);
+
+      expect(index2.lookup(1)).toEqual(['h1', 'h1b']);
+      expect(index2.lookup(4)).toEqual(['h4']);
+      expect(index.lookup(1)).toEqual(['h1']);
+    });
+
+    test('remove(rows) returns a new index', () => {
+      const index2 = index.remove([
+        { n: 2, _hash: 'h2' },
+        { n: 1, _hash: 'h1' },
+        { n: 5, _hash: 'h5' },
+      ]);
+
+      expect(index2.lookup(2)).toEqual(['h2b']);
+      expect(index2.lookup(1)).toEqual([]);
+      expect(index.lookup(2)).toEqual(['h2', 'h2b']);
+    });
+  });
+
+  suite('SortedIndex', () => {
+    const index = ColumnIndex.create('sorted', 'n', rows);
+
+    suite('lookup(condition)', () => {
+      test('returns rows for equality conditions', () => {
+        expect(index.lookup(2)).toEqual(['h2', 'h2b']);
+        expect(index.lookup({ _eq: 3, _gt: 1 })).toEqual(['h3']);
+        expect(index.lookup({ _in: [1, 3] })).toEqual(['h1', 'h3']);
+        expect(index.lookup(5)).toEqual([]);
+      });
+
+      test('returns rows for range conditions', () => {
+        expect(index.lookup({ _gt: 1 })).toEqual(['h2', 'h2b', 'h3']);
+        expect(index.lookup({ _gte: 2 })).toEqual(['h2', 'h2b', 'h3']);
+        expect(index.lookup({ _lt: 2 })).toEqual(['h1']);
+        expect(index.lookup({ _lte: 2 })).toEqual(['h1', 'h2', 'h2b']);
+        expect(index.lookup({ _gt: 1, _lt: 3 })).toEqual(['h2', 'h2b']);
+        expect(index.lookup({ _gt: 3, _lt: 1 })).toEqual([]);
+      });
+
+      test('returns undefined for other conditions', () => {
+        expect(index.lookup(null)).toBeUndefined();
+        expect(index.lookup({ x: 1 })).toBeUndefined();
+        expect(index.lookup({ _ne: 1 })).toBeUndefined();
+        expect(index.lookup({ _gt: { x: 1 } })).toBeUndefined();
+      });
+    });
+
+    test('add(rows) returns a new index', () => {
+      const index2 = index.add([
+        { n: 0, _hash: 'h0' },
+        { n: 2, _hash: 'h2c' },
+        { n: 4, _hash: 'h4' },
+        { n: null, _hash: 'hNull2' },
+      ]);
+
+      expect(index2.lookup({ _gte: 0 })).toEqual([
+        'h0',
+        'h1',
+        'h2',
+        'h2b',
+        'h2c',
+        'h3',
+        'h4',
+      ]);
+      expect(index.lookup({ _gte: 0 })).toEqual(['h1', 'h2', 'h2b', 'h3']);
+    });
+
+    test('remove(rows) returns a new index', () => {
+      const index2 = index.remove([{ n: 2, _hash: 'h2' }]);
+      expect(index2.lookup(2)).toEqual(['h2b']);
+      expect(index.lookup(2)).toEqual(['h2', 'h2b']);
+    });
+  });
+});
@@ -0,0 +1,301 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { expect, suite, test } from 'vitest';
+
+import { Csv } from '../src/csv';
+import { Rljson } from '../src/rljson';
+
+suite('Csv', () => {
+  suite('export(rljson, table, options)', () => {
+    test('exports all keys of the rows by default', () => {
+      expect(Csv.export(Rljson.example, 'tableA')).toBe(
+        ['keyA0,keyA1', 'a0,', ',a1', ''].join('\n'),
+      );
+    });
+
+    test('exports the declared columns by default', () => {
+      const rljson = Rljson.fromJson({})
+        .createTable('people', {
+          name: { type: 'string' },
+          age: { type: 'number', nullable: true },
+        })
+        .addRow('people', { name: 'Ann', age: 30 })
+        .addRow('people', { name: 'Bob' });
+
+      expect(Csv.export(rljson, 'people')).toBe('name,age\nAnn,30\nBob,\n');
+    });
+
+    test('exports selected columns following links', () => {
+      const rljson = Rljson.exampleWithDeepLink;
+      expect(
+        Csv.export(rljson, 'a', { columns: ['value', 'bRef/cRef/value'] }),
+      ).toBe('value,bRef/cRef/value\na,c\na0,c\n');
+    });
+
+    test('exports empty links followed by a path as empty fields', () => {
+      const rljson = Rljson.exampleWithDeepLink.addRow('a', {
+        value: 'a1',
+        bRef: null,
+      });
+
+      expect(
+        Csv.export(rljson, 'a', { columns: ['value', 'bRef/value'] }),
+      ).toBe('value,bRef/value\na,b\na0,b\na1,\n');
+    });
+
+    test('exports links without a path as hashes', () => {
+      const rljson = Rljson.exampleWithDeepLink;
+      const hashD = rljson.hash({ table: 'd', index: 0 });
+
+      expect(Csv.export(rljson, 'c')).toBe(`dRef,value\n${hashD},c\n`);
+    });
+
+    test('exports the rows matching where', () => {
+      const rljson = Rljson.fromJson({
+        numbers: { _data: [{ n: 1 }, { n: 2 }, { n: 3 }] },
+      });
+
+      expect(Csv.export(rljson, 'numbers', { where: { n: { _gte: 2 } } })).toBe(
+        'n\n2\n3\n',
+      );
+    });
+
+    test('quotes fields and writes json values', () => {
+      const rljson = Rljson.fromJson({
+        values: {
+          _data: [
+            {
+              text: 'a, "b"\nc',
+              flag: true,
+              list: [1, 2],
+              nothing: null,
+            },
+          ],
+        },
+      });
+
+      expect(Csv.export(rljson, 'values')).toBe(
+        'text,flag,list,nothing\n"a, ""b""\nc",true,"[1,2]",\n',
+      );
+    });
+
+    test('quotes empty lines', () => {
+      const rljson = Rljson.fromJson({ values: { _data: [{ n: null }] } });
+      expect(Csv.export(rljson, 'values')).toBe('n\n""\n');
+    });
+
+    test('uses the delimiter', () => {
+      const rljson = Rljson.fromJson({
+        values: { _data: [{ a: 'x;y', b: 1 }] },
+      });
+
+      expect(Csv.export(rljson, 'values', { delimiter: ';' })).toBe(
+        'a;b\n"x;y";1\n',
+      );
+    });
+
+    test('throws for unknown tables', () => {
+      expect(() => Csv.export(Rljson.example, 'unknown')).toThrow(
+        'Table not found: unknown',
+      );
+    });
+  });
+
+  suite('import(rljson, table, csv, options)', () => {
+    test('adds hashed rows like addData', () => {
+      const csv = 'name,age,member\nAnn,30,true\nBob,,false\n';
+      const rljson = Csv.import(Rljson.fromJson({}), 'people', csv);
+
+      const expected = Rljson.fromJson({
+        people: {
+          _data: [
+            { name: 'Ann', age: 30, member: true },
+            { name: 'Bob', member: false },
+          ],
+        },
+      });
+
+      expect(rljson.data).toEqual(expected.data);
+    });
+
+    test('adds rows to existing tables', () => {
+      const rljson = Csv.import(Rljson.example, 'tableA', 'keyA2\na2');
+      expect(rljson.items({ table: 'tableA' }).length).toBe(3);
+      expect(rljson.hasTable('tableB')).toBe(true);
+    });
+
+    test('converts values into the declared column types', () => {
+      const rljson = Rljson.fromJson({}).createTable('values', {
+        code: { type: 'string' },
+        count: { type: 'number' },
+        data: { type: 'json', nullable: true },
+      });
+
+      const result = Csv.import(
+        rljson,
+        'values',
+        'code,count,data\n007,7,"{""a"":1}"\n',
+      );
+
+      const [row] = result.items({ table: 'values' });
+      expect(row).toMatchObject({ code: '007', count: 7, data: { a: 1 } });
+    });
+
+    test('converts values into the types given in options', () => {
+      const result = Csv.import(
+        Rljson.fromJson({}),
+        'values',
+        'a,b,c,d\n1,2,true,false\n',
+        { types: { a: 'string', c: 'boolean', d: 'boolean' } },
+      );
+
+      const [row] = result.items({ table: 'values' });
+      expect(row).toMatchObject({ a: '1', b: 2, c: true, d: false });
+    });
+
+    test('imports exported tables', () => {
+      const rljson = Rljson.fromJson({
+        values: {
+          _data: [{ text: 'a, "b"\r\nc', flag: false, count: 1.5 }],
+        },
+      });
+
+      const csv = Csv.export(rljson, 'values');
+      const imported = Csv.import(Rljson.fromJson({}), 'values', csv);
+      expect(imported.data).toEqual(rljson.data);
+    });
+
+    test('imports exported tables with links', () => {
+      for (const rljson of [
+        Rljson.exampleWithDeepLink,
+        Rljson.exampleWithLinkList.addRow('post', {
+          title: 'untagged',
+          tagRefs: [null],
+        }),
+      ]) {
+        let imported = Rljson.fromJson({});
+        for (const table of Object.keys(rljson.dataIndexed)) {
+          const csv = Csv.export(rljson, table);
+          imported = Csv.import(imported, table, csv);
+        }
+
+        expect(imported.data).toEqual(rljson.data);
+        expect(() => imported.checkLinks()).not.toThrow();
+      }
+    });
+
+    test('keeps values that are no finite decimal numbers as strings', () => {
+      const result = Csv.import(
+        Rljson.fromJson({}),
+        'values',
+        'a,b,c,d,e\nInfinity,0x1A,01234,1e999,-1.5e3\n',
+      );
+
+      const [row] = result.items({ table: 'values' });
+      expect(row).toMatchObject({
+        a: 'Infinity',
+        b: '0x1A',
+        c: '01234',
+        d: '1e999',
+        e: -1500,
+      });
+    });
+
+    test('skips blank lines', () => {
+      const result = Csv.import(Rljson.fromJson({}), 'values', 'a,b\n1,2\n\n');
+      expect(result.items({ table: 'values' }).length).toBe(1);
+    });
+
+    test('checks the declared columns', () => {
+      const rljson = Rljson.fromJson({}).createTable('people', {
+        name: { type: 'string' },
+      });
+
+      expect(() => Csv.import(rljson, 'people', 'name\n""\n')).toThrow(
+        'Column "name" in table "people" must not be null.',
+      );
+    });
+
+    suite('throws', () => {
+      test('for empty CSV', () => {
+        expect(() => Csv.import(Rljson.example, 'a', '')).toThrow(
+          'CSV is empty.',
+        );
+      });
+
+      test('for lines with a wrong number of fields', () => {
+        expect(() =>
+          Csv.import(Rljson.example, 'a', 'x,y\n1,2\n"a\nb",2,3\n'),
+        ).toThrow('CSV line 3: Expected 2 fields but found 3.');
+      });
+
+      test('for unterminated quotes', () => {
+        expect(() => Csv.import(Rljson.example, 'a', 'x\n1\n"a\n')).toThrow(
+          'CSV line 3: Unterminated quoted field.',
+        );
+      });
+
+      test('for quotes within fields', () => {
+        expect(() => Csv.import(Rljson.example, 'a', 'x\na"b"\n')).toThrow(
+          'CSV line 2: Quotes must enclose the complete field.',
+        );
+      });
+
+      test('for values not matching the type', () => {
+        const types = {
+          x: 'number',
+          y: 'boolean',
+          z: 'json',
+          r: 'refs',
+        } as const;
+        const fails = (csv: string) => () =>
+          Csv.import(Rljson.example, 'a', csv, { types });
+
+        expect(fails('x\nabc')).toThrow(
+          'CSV line 2: Invalid number "abc" in column "x".',
+        );
+        expect(fails('x\n" "')).toThrow(
+          'CSV line 2: Invalid number " " in column "x".',
+        );
+        expect(fails('x\nInfinity')).toThrow(
+          'CSV line 2: Invalid number "Infinity" in column "x".',
+        );
+        expect(fails('y\nyes')).toThrow(
+          'CSV line 2: Invalid boolean "yes" in column "y".',
+        );
+        expect(fails('z\n{a}')).toThrow(
+          'CSV line 2: Invalid json "{a}" in column "z".',
+        );
+        expect(fails('r\nabc')).toThrow(
+          'CSV line 2: Invalid refs "abc" in column "r".',
+        );
+      });
+    });
+  });
+
+  suite('parse(csv, delimiter)', () => {
+    test('returns the records and their lines', () => {
+      expect(Csv.parse('a;b\r\n"x\ny";""\n1;"2"""', ';')).toEqual([
+        { line: 1, fields: ['a', 'b'] },
+        { line: 2, fields: ['x\ny', ''] },
+        { line: 4, fields: ['1', '2"'] },
+      ]);
+    });
+
+    test('returns empty fields', () => {
+      expect(Csv.parse(',\n')).toEqual([{ line: 1, fields: ['', ''] }]);
+      expect(Csv.parse('""\n')).toEqual([{ line: 1, fields: [''] }]);
+    });
+
+    test('skips blank lines', () => {
+      expect(Csv.parse('a\n\r\n\nb\n\n')).toEqual([
+        { line: 1, fields: ['a'] },
+        { line: 4, fields: ['b'] },
+      ]);
+    });
+  });
+});
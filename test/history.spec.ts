@@ -0,0 +1,230 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { expect, suite, test } from 'vitest';
+
+import { History } from '../src/history';
+import { Rljson } from '../src/rljson';
+
+suite('History', () => {
+  const ann = { person: { _data: [{ name: 'Ann' }] } };
+  const bob = { person: { _data: [{ name: 'Bob' }] } };
+  const tag = { tag: { _data: [{ name: 'red' }] } };
+
+  const create = () => {
+    const history = new History();
+    const c0 = history.addData(ann, 'Add Ann', { timestamp: 1 });
+    const c1 = history.addData(bob, 'Add Bob', { timestamp: 2 });
+    return { history, c0, c1 };
+  };
+
+  suite('commit(rljson, message, options)', () => {
+    test('records root hash, parent, timestamp and message', () => {
+      const { history, c0, c1 } = create();
+
+      expect(c0).toEqual({ hash: c0.hash, timestamp: 1, message: 'Add Ann' });
+      expect(c1).toEqual({
+        hash: history.head.data._hash,
+        parent: c0.hash,
+        timestamp: 2,
+        message: 'Add Bob',
+      });
+    });
+
+    test('uses the current time by default', () => {
+      const before = Date.now();
+      const commit = new History().commit(Rljson.example, 'Example');
+      expect(commit.timestamp).toBeGreaterThanOrEqual(before);
+      expect(commit.timestamp).toBeLessThanOrEqual(Date.now());
+    });
+
+    test('records nothing when the data did not change', () => {
+      const { history, c1 } = create();
+      expect(history.addData(bob, 'Add Bob again')).toBe(c1);
+      expect(history.log().length).toBe(2);
+    });
+
+    test('throws for empty data', () => {
+      expect(() => new History().commit(Rljson.empty(), 'Empty')).toThrow(
+        'Empty data cannot be committed.',
+      );
+    });
+  });
+
+  suite('log()', () => {
+    test('returns the commits leading to head, newest first', () => {
+      const { history, c0, c1 } = create();
+      expect(history.log()).toEqual([c1, c0]);
+      expect(new History().log()).toEqual([]);
+    });
+  });
+
+  suite('checkout(hash)', () => {
+    test('returns the version and makes it the head', () => {
+      const { history, c0, c1 } = create();
+
+      const version = history.checkout(c0.hash);
+      expect(version.data.person._data.map((r: any) => r.name)).toEqual([
+        'Ann',
+      ]);
+      expect(history.head).toBe(version);
+      expect(history.log()).toEqual([c0]);
+
+      // New commits branch off the checked out version
+      const c2 = history.addData(tag, 'Add tag', { timestamp: 3 });
+      expect(c2.parent).toBe(c0.hash);
+      expect(history.log()).toEqual([c2, c0]);
+
+      expect(history.checkout(c1.hash).hasTable('tag')).toBe(false);
+    });
+
+    test('shares unchanged tables and rows between versions', () => {
+      const { history, c0, c1 } = create();
+      history.addData(tag, 'Add tag');
+
+      const v0 = history.checkout(c0.hash);
+      const v1 = history.checkout(c1.hash);
+      expect(v1.data.person._data[0]).toBe(v0.data.person._data[0]);
+      expect(history.head.data.person).toBe(v1.data.person);
+    });
+
+    test('throws when the hash is unknown', () => {
+      expect(() => create().history.checkout('unknown')).toThrow(
+        'Commit "unknown" not found.',
+      );
+    });
+  });
+
+  suite('toJson(), fromJson(json)', () => {
+    test('store each row once', () => {
+      const { history, c0 } = create();
+      history.checkout(c0.hash);
+      history.addData(tag, 'Add tag', { timestamp: 3 });
+
+      const json = history.toJson();
+      expect(Object.keys(json.rows.person).length).toBe(2);
+      expect(json.commits.map((c) => Object.keys(c.tables))).toEqual([
+        ['person'],
+        ['person'],
+        ['tag'],
+      ]);
+      expect(json.commits.map((c) => c.parentIndex)).toEqual([undefined, 0, 0]);
+      expect(json.headIndex).toBe(2);
+
+      const restored = History.fromJson(JSON.parse(JSON.stringify(json)));
+      expect(restored.log()).toEqual(history.log());
+      expect(restored.head.data).toEqual(history.head.data);
+      expect(restored.checkout(c0.hash).data).toEqual(
+        history.checkout(c0.hash).data,
+      );
+    });
+
+    test('store only the changes of each commit', () => {
+      const history = new History();
+      for (let i = 0; i < 5; i++) {
+        history.addData({ person: { _data: [{ name: `P${i}` }] } }, `${i}`);
+      }
+
+      const { commits } = history.toJson();
+      const hash = history.head.hash({ table: 'person', index: 4 });
+      expect(commits[4].removedTables).toEqual([]);
+      expect(commits[4].tables).toEqual({
+        person: { header: {}, addedRows: [hash], removedRows: [] },
+      });
+    });
+
+    test('restore removed rows, removed tables and changed orders', () => {
+      const history = new History();
+      const v0 = Rljson.fromJson({
+        person: { _data: [{ name: 'Ann' }, { name: 'Bob' }] },
+        tag: { _data: [{ name: 'red' }] },
+      });
+      const annHash = v0.hash({ table: 'person', index: 0 });
+      const v1 = v0.removeRows('person', [annHash]);
+      const v2 = Rljson.fromJson({
+        person: { _data: [{ name: 'Cy' }, { name: 'Bob' }] },
+      });
+      const commits = [v0, v1, v2].map((v, i) => history.commit(v, `v${i}`));
+
+      const json = history.toJson();
+      expect(json.commits[1].tables.person.removedRows).toEqual([annHash]);
+      expect(json.commits[1].tables.person.order).toBeUndefined();
+      expect(json.commits[2].removedTables).toEqual(['tag']);
+      expect(json.commits[2].tables.person.order).toEqual(
+        v2.items({ table: 'person' }).map((row) => row._hash),
+      );
+
+      const restored = History.fromJson(JSON.parse(JSON.stringify(json)));
+      for (const [i, commit] of commits.entries()) {
+        expect(restored.checkout(commit.hash).data).toEqual(
+          [v0, v1, v2][i].data,
+        );
+      }
+    });
+
+    test('share unchanged tables and rows between versions', () => {
+      const { history, c0, c1 } = create();
+      const c2 = history.addData(tag, 'Add tag');
+
+      const restored = History.fromJson(
+        JSON.parse(JSON.stringify(history.toJson())),
+      );
+      const v0 = restored.checkout(c0.hash);
+      const v1 = restored.checkout(c1.hash);
+      const v2 = restored.checkout(c2.hash);
+
+      expect(v1.data.person._data[0]).toBe(v0.data.person._data[0]);
+      expect(v2.data.person).toBe(v1.data.person);
+      expect(v2.data).toEqual(history.head.data);
+    });
+
+    test('keep column declarations', () => {
+      const history = new History();
+      history.commit(
+        Rljson.empty().createTable('person', { name: { type: 'string' } }),
+        'Create person',
+      );
+
+      const restored = History.fromJson(history.toJson());
+      expect(restored.head.table('person')._columns).toEqual(
+        history.head.table('person')._columns,
+      );
+    });
+
+    test('restore empty histories', () => {
+      const restored = History.fromJson(new History().toJson());
+      expect(restored.log()).toEqual([]);
+      expect(restored.head.data).toEqual({});
+    });
+
+    test('throws when a commit does not match its data', () => {
+      const json = create().history.toJson();
+      json.commits[1].hash = 'wrong';
+
+      expect(() => History.fromJson(json)).toThrow(
+        /^Patch result hash "wrong" does not match root hash ".+"\.$/,
+      );
+    });
+
+    test('throws when a row was modified', () => {
+      const json = create().history.toJson();
+      const [hash] = Object.keys(json.rows.person);
+      json.rows.person[hash].name = 'Eve';
+
+      expect(() => History.fromJson(json)).toThrow(hash);
+    });
+
+    test('throws when a row is missing', () => {
+      const json = create().history.toJson();
+      const [hash] = Object.keys(json.rows.person);
+      delete json.rows.person[hash];
+
+      expect(() => History.fromJson(json)).toThrow(
+        `Row "${hash}" of table "person" not found.`,
+      );
+    });
+  });
+});
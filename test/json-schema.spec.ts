@@ -0,0 +1,158 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { expect, suite, test } from 'vitest';
+
+import { JsonSchema } from '../src/json-schema';
+import { Rljson } from '../src/rljson';
+
+suite('JsonSchema', () => {
+  const library = Rljson.fromJson({
+    person: {
+      _data: [{ name: 'Ann', age: 40 }, { name: 'Bob' }],
+    },
+    book: {
+      _data: [{ title: 'Rljson', personRef: 'h0', tagRefs: [], note: null }],
+    },
+  });
+
+  const schema = JsonSchema.generate(library);
+
+  suite('generate(rljson)', () => {
+    test('describes tables, rows and links', () => {
+      expect(schema.$schema).toBe(JsonSchema.dialect);
+      expect(schema.additionalProperties).toBe(false);
+      expect(Object.keys(schema.properties!)).toEqual([
+        '_hash',
+        'person',
+        'book',
+      ]);
+
+      const person = schema.properties!.person;
+      expect(person.required).toEqual(['_data']);
+      expect(person.properties!._data.items).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          age: { type: 'number' },
+          _hash: { type: 'string' },
+        },
+        required: ['name'],
+        additionalProperties: false,
+      });
+
+      const book = schema.properties!.book.properties!._data.items!;
+      expect(book.properties).toEqual({
+        title: { type: 'string' },
+        personRef: { type: 'string' },
+        tagRefs: { type: 'array', items: { type: 'string' } },
+        note: { type: 'null' },
+        _hash: { type: 'string' },
+      });
+    });
+
+    test('allows null in nullable columns', () => {
+      const rljson = Rljson.empty().createTable('person', {
+        age: { type: 'number', nullable: true },
+        friendRefs: { type: 'refs', table: 'person', nullable: true },
+      });
+
+      const row =
+        JsonSchema.generate(rljson).properties!.person.properties!._data.items!;
+      expect(row.properties).toEqual({
+        age: { type: ['number', 'null'] },
+        friendRefs: { type: ['array', 'null'], items: { type: 'string' } },
+        _hash: { type: 'string' },
+      });
+      expect(row.required).toEqual([]);
+    });
+  });
+
+  suite('validate(schema, json)', () => {
+    test('returns no errors for valid JSON', () => {
+      expect(JsonSchema.validate(schema, library.data)).toEqual([]);
+      expect(
+        JsonSchema.validate(schema, {
+          person: { _data: [{ name: 'Carl', age: 3 }] },
+        }),
+      ).toEqual([]);
+    });
+
+    test('returns errors naming table, row and column', () => {
+      const json = {
+        person: {
+          _data: [{ name: 'Ann' }, { name: 5, 'a/b': 1 }, { age: 1.5 }],
+        },
+        book: {
+          _data: [
+            { title: 'x', personRef: 'h', tagRefs: ['h', 5], note: null },
+          ],
+        },
+        shop: { _data: [] },
+      };
+
+      expect(JsonSchema.validate(schema, json)).toEqual([
+        {
+          path: '/person/_data/1/name',
+          message: 'Must be of type "string".',
+        },
+        { path: '/person/_data/1/a~1b', message: 'Property is not allowed.' },
+        { path: '/person/_data/2', message: 'Property "name" is missing.' },
+        {
+          path: '/book/_data/0/tagRefs/1',
+          message: 'Must be of type "string".',
+        },
+        { path: '/shop', message: 'Property is not allowed.' },
+      ]);
+    });
+
+    test('checks types of tables and data', () => {
+      expect(JsonSchema.validate(schema, [])).toEqual([
+        { path: '', message: 'Must be of type "object".' },
+      ]);
+
+      expect(
+        JsonSchema.validate(schema, { person: { _data: {} }, book: {} }),
+      ).toEqual([
+        { path: '/person/_data', message: 'Must be of type "array".' },
+        { path: '/book', message: 'Property "_data" is missing.' },
+      ]);
+    });
+
+    test('distinguishes integers and numbers', () => {
+      const integer = { type: 'integer' as const };
+      expect(JsonSchema.validate(integer, 1)).toEqual([]);
+      expect(JsonSchema.validate(integer, 1.5)).toEqual([
+        { path: '', message: 'Must be of type "integer".' },
+      ]);
+
+      const nullable = { type: ['string' as const, 'null' as const] };
+      expect(JsonSchema.validate(nullable, true)).toEqual([
+        { path: '', message: 'Must be of type "string" or "null".' },
+      ]);
+    });
+  });
+
+  suite('check(schema, json)', () => {
+    test('throws listing all errors', () => {
+      expect(() => JsonSchema.check(schema, library.data)).not.toThrow();
+
+      expect(() =>
+        JsonSchema.check(schema, { person: { _data: [{ age: '1' }] } }),
+      ).toThrow(
+        [
+          'JSON does not match the schema:',
+          '  /person/_data/0: Property "name" is missing.',
+          '  /person/_data/0/age: Must be of type "number".',
+        ].join('\n'),
+      );
+
+      expect(() => JsonSchema.check(schema, 5)).toThrow(
+        '  /: Must be of type "object".',
+      );
+    });
+  });
+});
@@ -0,0 +1,188 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { PassThrough, Writable } from 'node:stream';
+import { expect, suite, test } from 'vitest';
+
+import { Ndjson } from '../src/ndjson';
+import { Rljson } from '../src/rljson';
+
+suite('Ndjson', () => {
+  const rljson = Rljson.fromJson({})
+    .createTable('people', { name: { type: 'string' } })
+    .addRow('people', { name: 'Ann' })
+    .addRow('people', { name: 'Bob' })
+    .createTable('empty');
+
+  suite('lines(rljson)', () => {
+    test('returns a header line per table and a line per row', () => {
+      const lines = [...Ndjson.lines(rljson)].map((line) => JSON.parse(line));
+      const [ann, bob] = rljson.items({ table: 'people' });
+
+      expect(lines).toEqual([
+        {
+          table: 'people',
+          header: { _columns: rljson.table('people')['_columns'] },
+        },
+        { table: 'people', row: ann },
+        { table: 'people', row: bob },
+        { table: 'empty', header: {} },
+      ]);
+    });
+
+    test('ends each line with a line break', () => {
+      for (const line of Ndjson.lines(rljson)) {
+        expect(line.endsWith('\n')).toBe(true);
+        expect(line.indexOf('\n')).toBe(line.length - 1);
+      }
+    });
+  });
+
+  suite('write(rljson, stream)', () => {
+    test('writes all lines into the stream', async () => {
+      const stream = new PassThrough();
+      const chunks: string[] = [];
+      stream.on('data', (chunk) => chunks.push(chunk.toString()));
+
+      await Ndjson.write(rljson, stream);
+      expect(chunks.join('')).toBe([...Ndjson.lines(rljson)].join(''));
+    });
+
+    test('waits for the stream to drain', async () => {
+      const written: string[] = [];
+      const stream = new Writable({
+        highWaterMark: 1,
+        write(chunk, _, callback) {
+          written.push(chunk.toString());
+          setTimeout(callback, 0);
+        },
+      });
+
+      await Ndjson.write(rljson, stream);
+      expect(written.length).toBe(4);
+    });
+
+    test('rejects when the stream fails', async () => {
+      const stream = new Writable({
+        highWaterMark: 1,
+        write(_chunk, _, callback) {
+          callback(new Error('Disk full'));
+        },
+      });
+
+      await expect(Ndjson.write(rljson, stream)).rejects.toThrow('Disk full');
+    });
+
+    test('rejects when the stream is closed', async () => {
+      const stream = new Writable({
+        highWaterMark: 1,
+        write() {
+          setTimeout(() => stream.destroy(), 0);
+        },
+      });
+
+      await expect(Ndjson.write(rljson, stream)).rejects.toThrow(
+        'Stream was closed before draining.',
+      );
+
+      stream.on('error', () => {});
+      await expect(Ndjson.write(rljson, stream)).rejects.toThrow(
+        'Stream is destroyed.',
+      );
+    });
+  });
+
+  suite('read(source, options)', () => {
+    test('restores written data', async () => {
+      const result = await Ndjson.read(Ndjson.lines(rljson));
+      expect(result.data).toEqual(rljson.data);
+      expect(result.ls()).toEqual(rljson.ls());
+    });
+
+    test('reads chunks not ending at line breaks', async () => {
+      const text = [...Ndjson.lines(rljson)].join('');
+      const bytes = new TextEncoder().encode(text);
+
+      // Split bytes in the middle of lines and characters
+      async function* chunks() {
+        for (let i = 0; i < bytes.length; i += 7) {
+          yield bytes.slice(i, i + 7);
+        }
+      }
+
+      const result = await Ndjson.read(chunks());
+      expect(result.data).toEqual(rljson.data);
+    });
+
+    test('reads text without final line break and with empty lines', async () => {
+      const text = [...Ndjson.lines(rljson)].join('\r\n').trimEnd();
+      const result = await Ndjson.read([text]);
+      expect(result.data).toEqual(rljson.data);
+    });
+
+    test('adds rows to tables declared before', async () => {
+      const numbers = Rljson.fromJson({
+        numbers: { _data: [{ n: 1 }, { n: 2 }, { n: 3 }] },
+      });
+      const [header, ...rows] = Ndjson.lines(numbers);
+
+      const result = await Ndjson.read([rows[0], header, ...rows.slice(1)]);
+      expect(result.data).toEqual(numbers.data);
+    });
+
+    test('calculates missing hashes', async () => {
+      const result = await Ndjson.read([
+        '{"table":"numbers","row":{"n":1}}\n',
+        '{"table":"numbers","row":{"n":2}}\n',
+      ]);
+
+      const expected = Rljson.fromJson({
+        numbers: { _data: [{ n: 1 }, { n: 2 }] },
+      });
+
+      expect(result.data).toEqual(expected.data);
+    });
+
+    suite('throws', () => {
+      test('for invalid JSON', async () => {
+        await expect(Ndjson.read(['\n{"table":"a",'])).rejects.toThrow(
+          'NDJSON line 2: Invalid JSON.',
+        );
+      });
+
+      test('for lines without table', async () => {
+        await expect(Ndjson.read(['{"row":{}}'])).rejects.toThrow(
+          'NDJSON line 1: Missing "table".',
+        );
+      });
+
+      test('for lines without header or row', async () => {
+        for (const line of ['{"table":"a"}', '{"table":"a","row":[]}']) {
+          await expect(Ndjson.read([line])).rejects.toThrow(
+            'NDJSON line 1: Expected an object "header" or "row".',
+          );
+        }
+      });
+
+      test('for wrong row hashes', async () => {
+        const source = [
+          '{"table":"numbers","row":{"n":1}}',
+          '{"table":"numbers","row":{"n":2,"_hash":"wrong"}}',
+        ].join('\n');
+
+        await expect(Ndjson.read([source])).rejects.toThrow(
+          /^NDJSON line 2: .*wrong/,
+        );
+      });
+
+      test('for invalid table names', async () => {
+        await expect(
+          Ndjson.read(['{"table":"a-b","row":{"n":1}}']),
+        ).rejects.toThrow();
+      });
+    });
+  });
+});
@@ -0,0 +1,142 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { expect, suite, test } from 'vitest';
+
+import { Normalizer } from '../src/normalizer';
+import { Rljson } from '../src/rljson';
+
+suite('Normalizer', () => {
+  suite('normalize(rljson, table, objects, mapping)', () => {
+    const b = {
+      value: 'b',
+      c: { value: 'c', d: { value: 'd', details: 'details about d' } },
+    };
+
+    const mapping = { b: 'b', 'b/c': 'c', 'b/c/d': 'd' };
+
+    test('splits nested objects into linked tables', () => {
+      const { rljson, hashes } = Normalizer.normalize(
+        Rljson.empty(),
+        'a',
+        [
+          { value: 'a', b },
+          { value: 'a0', b },
+        ],
+        mapping,
+      );
+
+      const expected = Rljson.exampleWithDeepLink;
+      expect(rljson.data).toEqual(expected.data);
+      expect(Object.keys(rljson.dataIndexed)).toEqual(['d', 'c', 'b', 'a']);
+      expect(hashes).toEqual(expected.data.a._data.map((r: any) => r._hash));
+    });
+
+    test('adds the tables to existing data', () => {
+      const { rljson, hashes } = Normalizer.normalize(
+        Rljson.example,
+        'a',
+        { value: 'a', b },
+        mapping,
+      );
+
+      expect(rljson.hasTable('tableA')).toBe(true);
+      expect(rljson.value({ table: 'a', itemHash: hashes[0] })).toEqual(
+        rljson.row('a', hashes[0]),
+      );
+      expect(
+        rljson.value({
+          table: 'a',
+          itemHash: hashes[0],
+          followLink: ['bRef', 'cRef', 'dRef', 'value'],
+        }),
+      ).toBe('d');
+    });
+
+    test('turns lists of objects into lists of links', () => {
+      const { rljson, hashes } = Normalizer.normalize(
+        Rljson.empty(),
+        'post',
+        { title: 'Hello', tags: [{ name: 'red' }, { name: 'green' }] },
+        { tags: 'tags' },
+      );
+
+      expect(rljson.resolve('post', hashes[0]).tagsRefs).toEqual(
+        rljson.data.tags._data,
+      );
+    });
+
+    test('keeps unmapped objects and empty links', () => {
+      const { rljson, hashes } = Normalizer.normalize(
+        Rljson.empty(),
+        'a',
+        { details: { x: 1 }, b: null, _hash: 'ignored' },
+        { b: 'b' },
+      );
+
+      const row = rljson.row('a', hashes[0]);
+      expect(row.details.x).toBe(1);
+      expect(row.bRef).toBeNull();
+      expect(Object.keys(row)).toEqual(['details', 'bRef', '_hash']);
+    });
+
+    test('does not change the objects', () => {
+      const meta = { a: 1 };
+      const objects = [{ value: 'a', meta, b }];
+
+      Normalizer.normalize(Rljson.empty(), 'a', objects, mapping);
+      expect(meta).toEqual({ a: 1 });
+      expect(objects[0].b).toBe(b);
+      expect(b.c.d).toEqual({ value: 'd', details: 'details about d' });
+    });
+
+    test('links to declared tables', () => {
+      const rljson = Rljson.empty().createTable('book', {
+        title: { type: 'string' },
+        authorRef: { type: 'ref', table: 'person' },
+      });
+
+      const result = Normalizer.normalize(
+        rljson,
+        'book',
+        { title: 'Rljson', author: { name: 'Ann' } },
+        { author: 'person' },
+      );
+
+      expect(result.rljson.data.person._data[0].name).toBe('Ann');
+      expect(() => result.rljson.checkLinks()).not.toThrow();
+    });
+
+    suite('throws', () => {
+      test('when a link would point to another table', () => {
+        expect(() =>
+          Normalizer.normalize(
+            Rljson.empty(),
+            'book',
+            { author: { name: 'Ann' } },
+            { author: 'person' },
+          ),
+        ).toThrow(
+          'Column "authorRef" of table "book" links to table "author" instead of "person". Declare the table of the column in _columns.',
+        );
+      });
+
+      test('when a mapped value is not an object', () => {
+        expect(() =>
+          Normalizer.normalize(Rljson.empty(), 'a', { b: 'b' }, mapping),
+        ).toThrow(
+          'Value at "b" must be an object to become a row of table "b".',
+        );
+
+        expect(() =>
+          Normalizer.normalize(Rljson.empty(), 'a', [5 as any], mapping),
+        ).toThrow(
+          'Value at "/" must be an object to become a row of table "a".',
+        );
+      });
+    });
+  });
+});
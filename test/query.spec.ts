@@ -0,0 +1,178 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { beforeEach, expect, suite, test } from 'vitest';
+
+import { Query, Rlwhere } from '../src/query';
+import { Rljson } from '../src/rljson';
+
+suite('Query', () => {
+  let rljson: Rljson;
+
+  beforeEach(() => {
+    rljson = Rljson.fromJson({
+      person: {
+        _data: [
+          { name: 'Ada', age: 36, tags: ['math'] },
+          { name: 'Alan', age: 41, tags: ['math', 'crypto'] },
+          { name: 'Grace', age: 85, details: { navy: true } },
+          { name: 'Linus' },
+        ],
+      },
+    });
+  });
+
+  const names = (where: Rlwhere) =>
+    rljson
+      .items({ table: 'person', where })
+      .map((row) => row.name)
+      .sort();
+
+  suite('matches(rljson, table, row, where)', () => {
+    test('with equality', () => {
+      expect(names({ name: 'Ada' })).toEqual(['Ada']);
+      expect(names({ age: null })).toEqual(['Linus']);
+      expect(names({ tags: ['math'] })).toEqual(['Ada']);
+      expect(names({ details: { navy: true } })).toEqual(['Grace']);
+      expect(names({ details: { navy: false } })).toEqual([]);
+      expect(names({ details: [true] })).toEqual([]);
+      expect(names({ details: { navy: true, army: false } })).toEqual([]);
+    });
+
+    test('with comparison operators', () => {
+      expect(names({ age: { _eq: 36 } })).toEqual(['Ada']);
+      expect(names({ age: { _ne: 36 } })).toEqual(['Alan', 'Grace', 'Linus']);
+      expect(names({ age: { _lt: 41 } })).toEqual(['Ada']);
+      expect(names({ age: { _lte: 41 } })).toEqual(['Ada', 'Alan']);
+      expect(names({ age: { _gt: 41 } })).toEqual(['Grace']);
+      expect(names({ age: { _gte: 41 } })).toEqual(['Alan', 'Grace']);
+      expect(names({ age: { _gt: 36, _lt: 85 } })).toEqual(['Alan']);
+      expect(names({ age: { _gt: null } })).toEqual([]);
+    });
+
+    test('with _in', () => {
+      expect(names({ name: { _in: ['Ada', 'Linus', 'Bob'] } })).toEqual([
+        'Ada',
+        'Linus',
+      ]);
+    });
+
+    test('with _and, _or and _not', () => {
+      expect(
+        names({ _and: [{ age: { _gt: 30 } }, { age: { _lt: 50 } }] }),
+      ).toEqual(['Ada', 'Alan']);
+
+      expect(names({ _or: [{ name: 'Ada' }, { name: 'Grace' }] })).toEqual([
+        'Ada',
+        'Grace',
+      ]);
+
+      expect(names({ _not: { age: null } })).toEqual(['Ada', 'Alan', 'Grace']);
+    });
+
+    test('with multiple keys', () => {
+      expect(names({ name: 'Ada', age: 36 })).toEqual(['Ada']);
+      expect(names({ name: 'Ada', age: 41 })).toEqual([]);
+    });
+
+    test('with paths following links', () => {
+      rljson = Rljson.exampleWithDeepLink;
+
+      const values = (where: Rlwhere) =>
+        rljson.items({ table: 'a', where }).map((row) => row.value);
+
+      expect(values({ 'bRef/cRef/dRef/value': 'd' })).toEqual(['a', 'a0']);
+      expect(values({ 'bRef/value': 'x' })).toEqual([]);
+      expect(values({ 'xRef/value': null })).toEqual(['a', 'a0']);
+    });
+
+    test('throws on unknown operators', () => {
+      expect(() => names({ age: { _gtt: 5 } })).toThrow(
+        'Unknown operator "_gtt".',
+      );
+    });
+  });
+
+  suite('sort(rljson, table, rows, orderBy)', () => {
+    const sorted = (orderBy: any[]) =>
+      rljson.items({ table: 'person', orderBy }).map((row) => row.name);
+
+    test('sorts ascending by default', () => {
+      expect(sorted(['age'])).toEqual(['Linus', 'Ada', 'Alan', 'Grace']);
+      expect(sorted([{ column: 'name' }])).toEqual([
+        'Ada',
+        'Alan',
+        'Grace',
+        'Linus',
+      ]);
+    });
+
+    test('keeps the order of equal rows', () => {
+      expect(sorted(['details'])).toEqual(['Ada', 'Alan', 'Linus', 'Grace']);
+    });
+
+    test('sorts descending', () => {
+      expect(sorted([{ column: 'age', direction: 'desc' }])).toEqual([
+        'Grace',
+        'Alan',
+        'Ada',
+        'Linus',
+      ]);
+    });
+
+    test('sorts by multiple columns', () => {
+      rljson = rljson.addData({
+        person: { _data: [{ name: 'Ada', age: 20 }] },
+      });
+
+      expect(
+        rljson
+          .items({
+            table: 'person',
+            orderBy: ['name', { column: 'age', direction: 'desc' }],
+          })
+          .map((row) => `${row.name} ${row.age}`),
+      ).toEqual(['Ada 36', 'Ada 20', 'Alan 41', 'Grace 85', 'Linus undefined']);
+    });
+
+    test('sorts by paths following links', () => {
+      rljson = Rljson.exampleWithDeepLink;
+
+      expect(
+        rljson
+          .items({ table: 'a', orderBy: ['bRef/value', 'value'] })
+          .map((row) => row.value),
+      ).toEqual(['a', 'a0']);
+    });
+  });
+
+  suite('compare(a, b)', () => {
+    test('puts null and undefined first', () => {
+      expect(Query.compare(null, 1)).toBe(-1);
+      expect(Query.compare(1, undefined)).toBe(1);
+      expect(Query.compare(null, undefined)).toBe(0);
+    });
+
+    test('compares values', () => {
+      expect(Query.compare(1, 2)).toBe(-1);
+      expect(Query.compare('b', 'a')).toBe(1);
+      expect(Query.compare('a', 'a')).toBe(0);
+    });
+  });
+
+  suite('isOperator(condition)', () => {
+    test('returns true for objects with operators', () => {
+      expect(Query.isOperator({ _gt: 5 })).toBe(true);
+    });
+
+    test('returns false for values', () => {
+      expect(Query.isOperator(5)).toBe(false);
+      expect(Query.isOperator(null)).toBe(false);
+      expect(Query.isOperator(['_gt'])).toBe(false);
+      expect(Query.isOperator({ a: 5, _hash: 'abc' })).toBe(false);
+    });
+  });
+});
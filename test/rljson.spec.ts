@@ -5,7 +5,8 @@
 // found in the LICENSE file in the root of this package.
 
 import { assert } from 'console';
-import { beforeEach, expect, suite, test } from 'vitest';
+import { JsonHash } from 'gg-json-hash';
+import { beforeEach, expect, suite, test, vi } from 'vitest';
 
 import { Rljson } from '../src/rljson';
 
@@ -226,12 +227,22 @@ suite('Rljson', () => {
   });
 
   suite('createTable(String table)', () => {
-    suite('with inPlace true', () => {
-      test('modifies the original object', () => {
-        const rljson2 = rljson.createTable('tableX');
-        expect(rljson.hasTable('tableX')).toBe(true);
-        expect(rljson2).toBe(rljson);
+    test('returns a new object containing the table', () => {
+      const rljson2 = rljson.createTable('tableX');
+      expect(rljson2.hasTable('tableX')).toBe(true);
+      expect(rljson.hasTable('tableX')).toBe(false);
+      expect(rljson2).not.toBe(rljson);
+    });
+
+    test('adds the columns to the table', () => {
+      const rljson2 = rljson.createTable('tableX', {
+        keyX0: { type: 'string' },
       });
+
+      expect(rljson2.table('tableX')._columns.keyX0.type).toBe('string');
+      expect(() => rljson2.addRow('tableX', { keyX0: 5 })).toThrow(
+        'Column "keyX0" in table "tableX" must be of type "string".',
+      );
     });
   });
 
@@ -244,6 +255,146 @@ suite('Rljson', () => {
 
       expect(items).toEqual([{ keyA0: 'a0', _hash: a0Hash }]);
     });
+
+    test('returns all items when no where clause is given', () => {
+      const items = rljson.items({ table: 'tableA' });
+      expect(items.length).toBe(2);
+    });
+
+    test('accepts JSON where clauses', () => {
+      const items = rljson.items({
+        table: 'tableA',
+        where: { keyA1: { _in: ['a1', 'a2'] } },
+      });
+
+      expect(items).toEqual([{ keyA1: 'a1', _hash: a1Hash }]);
+    });
+
+    test('sorts and pages the items', () => {
+      rljson = rljson.addData({
+        tableC: { _data: [{ n: 3 }, { n: 1 }, { n: 4 }, { n: 2 }] },
+      });
+
+      const page = (offset?: number, limit?: number) =>
+        rljson
+          .items({ table: 'tableC', orderBy: ['n'], offset, limit })
+          .map((item) => item.n);
+
+      expect(page()).toEqual([1, 2, 3, 4]);
+      expect(page(1)).toEqual([2, 3, 4]);
+      expect(page(undefined, 2)).toEqual([1, 2]);
+      expect(page(2, 1)).toEqual([3]);
+    });
+  });
+
+  suite('createIndex(table, column, type)', () => {
+    beforeEach(() => {
+      rljson = Rljson.fromJson({
+        person: {
+          _data: [
+            { name: 'Ada', age: 36 },
+            { name: 'Alan', age: 41 },
+            { name: 'Grace', age: 85 },
+          ],
+        },
+      });
+    });
+
+    const names = (rljson: Rljson, where: any) =>
+      rljson
+        .items({ table: 'person', where, orderBy: ['name'] })
+        .map((item) => item.name);
+
+    test('returns a new object containing the index', () => {
+      const rljson2 = rljson.createIndex('person', 'name');
+      expect(rljson2.indexes.person.name.type).toBe('hash');
+      expect(rljson.indexes).toEqual({});
+      expect(rljson2.data).toBe(rljson.data);
+    });
+
+    test('uses indexes in items()', () => {
+      const rljson2 = rljson
+        .createIndex('person', 'name')
+        .createIndex('person', 'age', 'sorted');
+
+      const nameIndex = vi.spyOn(rljson2.indexes.person.name, 'lookup');
+      const ageIndex = vi.spyOn(rljson2.indexes.person.age, 'lookup');
+
+      expect(names(rljson2, { name: 'Ada' })).toEqual(['Ada']);
+      expect(nameIndex).toHaveBeenCalledTimes(1);
+
+      expect(
+        names(rljson2, { age: { _gt: 40 }, name: { _ne: 'Grace' } }),
+      ).toEqual(['Alan']);
+      expect(ageIndex).toHaveBeenCalledTimes(1);
+    });
+
+    test('falls back to a full scan when no index can be used', () => {
+      const rljson2 = rljson.createIndex('person', 'name');
+      expect(names(rljson2, { name: { _ne: 'Ada' } })).toEqual([
+        'Alan',
+        'Grace',
+      ]);
+      expect(names(rljson2, { age: 36 })).toEqual(['Ada']);
+      expect(names(rljson2, { _or: [{ age: 36 }] })).toEqual(['Ada']);
+    });
+
+    test('uses indexes in select()', () => {
+      const rljson2 = rljson.createIndex('person', 'age', 'sorted');
+      const ageIndex = vi.spyOn(rljson2.indexes.person.age, 'lookup');
+
+      expect(rljson2.select('person', ['name'], { age: { _lt: 50 } })).toEqual([
+        ['Ada'],
+        ['Alan'],
+      ]);
+      expect(ageIndex).toHaveBeenCalledTimes(1);
+    });
+
+    test('keeps indexes up to date when data is added', () => {
+      const rljson2 = rljson.createIndex('person', 'age', 'sorted');
+      const rljson3 = rljson2
+        .addData({ person: { _data: [{ name: 'Linus', age: 55 }] } })
+        .addRow('person', { name: 'Tim', age: 69 });
+
+      expect(names(rljson3, { age: { _gt: 50 } })).toEqual([
+        'Grace',
+        'Linus',
+        'Tim',
+      ]);
+      expect(names(rljson2, { age: { _gt: 50 } })).toEqual(['Grace']);
+    });
+
+    test('keeps indexes when nothing is added', () => {
+      const rljson2 = rljson.createIndex('person', 'age');
+      const rljson3 = rljson2.addData({
+        person: { _data: [{ name: 'Ada', age: 36 }] },
+        other: { _data: [] },
+      });
+
+      expect(rljson3.indexes.person).toBe(rljson2.indexes.person);
+    });
+
+    test('keeps indexes up to date when rows are removed', () => {
+      const rljson2 = rljson.createIndex('person', 'age', 'sorted');
+      const [ada] = rljson2.items({ table: 'person', where: { name: 'Ada' } });
+      const rljson3 = rljson2
+        .addData({ other: { _data: [{ x: 1 }] } })
+        .removeRows('person', [ada._hash!])
+        .collectGarbage([]);
+
+      expect(names(rljson3, { age: { _gt: 0 } })).toEqual([]);
+      expect(names(rljson2, { age: { _gt: 0 } })).toEqual([
+        'Ada',
+        'Alan',
+        'Grace',
+      ]);
+    });
+
+    test('throws when the table does not exist', () => {
+      expect(() => rljson.createIndex('tableX', 'name')).toThrow(
+        'Table not found: tableX',
+      );
+    });
   });
 
   suite('row(table, hash)', () => {
@@ -287,18 +438,17 @@ suite('Rljson', () => {
   });
 
   suite('addRow(table, item)', () => {
-    const inPlace = true;
-
     test('does nothing when the item is already in the table', () => {
       const item = rljson.data.tableA._data[0];
-      rljson.addRow('tableA', item);
+      const rljson2 = rljson.addRow('tableA', item);
+      expect(rljson2).toBe(rljson);
     });
 
-    test('modifies the original object', () => {
-      rljson.addRow('tableA', { keyA2: 'a2' });
-      const hashA2 = rljson.hash({ table: 'tableA', index: 2 });
-      const items = rljson.data.tableA._data;
-      const tableIndexed = rljson.tableIndexed('tableA');
+    test('returns a new object containing the item', () => {
+      const rljson2 = rljson.addRow('tableA', { keyA2: 'a2' });
+      const hashA2 = rljson2.hash({ table: 'tableA', index: 2 });
+      const items = rljson2.data.tableA._data;
+      const tableIndexed = rljson2.tableIndexed('tableA');
       const item = tableIndexed[hashA2];
       expect(item.keyA2).toBe('a2');
 
@@ -308,6 +458,84 @@ suite('Rljson', () => {
         { keyA2: 'a2', _hash: hashA2 },
       ]);
     });
+
+    test('does not modify the original object', () => {
+      const dataBefore = JSON.parse(JSON.stringify(rljson.data));
+      const rljson2 = rljson.addRow('tableA', { keyA2: 'a2' });
+
+      expect(rljson2).not.toBe(rljson);
+      expect(rljson.data).toEqual(dataBefore);
+      expect(Object.keys(rljson.tableIndexed('tableA'))).toEqual([
+        a0Hash,
+        a1Hash,
+      ]);
+    });
+
+    test('updates the table and the root hash', () => {
+      const rljson2 = rljson.addRow('tableA', { keyA2: 'a2' });
+      expect(rljson2.data.tableA._hash).not.toBe(rljson.data.tableA._hash);
+      expect(rljson2.data._hash).not.toBe(rljson.data._hash);
+      expect(() => JsonHash.default.validate(rljson2.data)).not.toThrow();
+    });
+
+    test('shares unchanged tables with the original object', () => {
+      const rljson2 = rljson.addRow('tableA', { keyA2: 'a2' });
+      expect(rljson2.data.tableB).toBe(rljson.data.tableB);
+      expect(rljson2.dataIndexed.tableB).toBe(rljson.dataIndexed.tableB);
+      expect(rljson2.row('tableA', a0Hash)).toBe(rljson.row('tableA', a0Hash));
+    });
+
+    suite('with columns', () => {
+      test('adds valid items', () => {
+        const rljson2 = rljson
+          .createTable('tableX', { keyX0: { type: 'string' } })
+          .addRow('tableX', { keyX0: 'x0' });
+
+        expect(rljson2.table('tableX')._data.length).toBe(1);
+      });
+
+      test('throws when the item does not match the columns', () => {
+        const rljson2 = rljson.createTable('tableX', {
+          keyX0: { type: 'string' },
+        });
+
+        expect(() => rljson2.addRow('tableX', { keyX1: 'x1' })).toThrow(
+          'Table "tableX" has no column "keyX1".',
+        );
+      });
+    });
+
+    test('throws when the table does not exist', () => {
+      let exception;
+
+      try {
+        rljson.addRow('tableX', { keyX0: 'x0' });
+      } catch (e: any) {
+        exception = e;
+      }
+
+      expect(exception.toString()).toBe('Error: Table not found: tableX');
+    });
+  });
+
+  suite('sortRows(tables)', () => {
+    test('gives instances with the same rows the same hashes', () => {
+      const a = Rljson.fromJson({ n: { _data: [{ n: 1 }, { n: 2 }] } });
+      const b = Rljson.fromJson({ n: { _data: [{ n: 2 }, { n: 1 }] } });
+      expect(a.data._hash).not.toBe(b.data._hash);
+
+      const sortedA = a.sortRows(['n']);
+      const sortedB = b.sortRows(['n']);
+      expect(sortedA.data).toEqual(sortedB.data);
+
+      const hashes = sortedA.items({ table: 'n' }).map((row) => row._hash);
+      expect(hashes).toEqual([...hashes].sort());
+    });
+
+    test('returns the same instance when rows are sorted already', () => {
+      const sorted = Rljson.example.sortRows(['tableA', 'tableB']);
+      expect(sorted.sortRows(['tableA', 'tableB'])).toBe(sorted);
+    });
   });
 
   suite('value(table, itemHash, followLink)', () => {
@@ -414,6 +642,90 @@ suite('Rljson', () => {
     });
   });
 
+  suite('resolve(table, hash, options)', () => {
+    test('replaces all links by the linked rows', () => {
+      rljson = Rljson.exampleWithDeepLink;
+      const hashA = rljson.hash({ table: 'a', index: 0 });
+      const a = rljson.resolve('a', hashA);
+
+      expect(a.value).toBe('a');
+      expect(a.bRef.value).toBe('b');
+      expect(a.bRef.cRef.value).toBe('c');
+      expect(a.bRef.cRef.dRef).toEqual(rljson.row('d', a.bRef.cRef.dRef._hash));
+    });
+
+    test('does not modify the rows', () => {
+      rljson = Rljson.exampleWithDeepLink;
+      const hashA = rljson.hash({ table: 'a', index: 0 });
+      const row = { ...rljson.row('a', hashA) };
+
+      rljson.resolve('a', hashA);
+      expect(rljson.row('a', hashA)).toEqual(row);
+    });
+
+    test('resolves links up to depth', () => {
+      rljson = Rljson.exampleWithDeepLink;
+      const hashA = rljson.hash({ table: 'a', index: 0 });
+      const hashB = rljson.hash({ table: 'b', index: 0 });
+
+      expect(rljson.resolve('a', hashA, { depth: 0 })).toBe(
+        rljson.row('a', hashA),
+      );
+
+      const a = rljson.resolve('a', hashA, { depth: 1 });
+      expect(a.bRef).toBe(rljson.row('b', hashB));
+    });
+
+    test('resolves lists of links', () => {
+      rljson = Rljson.exampleWithLinkList.addData({
+        post: { _data: [{ title: 'Empty', tagRefs: [null] }] },
+      });
+      const postHash = rljson.hash({ table: 'post', index: 0 });
+      const emptyHash = rljson.hash({ table: 'post', index: 1 });
+
+      expect(
+        rljson.resolve('post', postHash).tagRefs.map((tag: any) => tag.name),
+      ).toEqual(['red', 'green']);
+      expect(rljson.resolve('post', emptyHash).tagRefs).toEqual([null]);
+    });
+
+    test('keeps empty links', () => {
+      rljson = Rljson.fromJson({
+        a: { _data: [{ value: 'a' }] },
+        b: { _data: [{ aRef: null }] },
+      });
+      const hashB = rljson.hash({ table: 'b', index: 0 });
+
+      expect(rljson.resolve('b', hashB).aRef).toBeNull();
+    });
+
+    test('keeps hashes of links to rows being resolved', () => {
+      rljson = Rljson.fromJson(
+        {
+          a: { _data: [{ bRef: 'B', _hash: 'A' }] },
+          b: { _data: [{ aRefs: ['A'], _hash: 'B' }] },
+        },
+        { updateHashes: false },
+      );
+
+      expect(rljson.resolve('a', 'A')).toEqual({
+        _hash: 'A',
+        bRef: { _hash: 'B', aRefs: ['A'] },
+      });
+    });
+
+    test('throws when a linked row does not exist', () => {
+      rljson = Rljson.exampleWithLink.addData({
+        linkToTableA: { _data: [{ tableARef: 'brokenHash' }] },
+      });
+      const hash = rljson.hash({ table: 'linkToTableA', index: 1 });
+
+      expect(() => rljson.resolve('linkToTableA', hash)).toThrow(
+        'Item not found with hash "brokenHash" in table "tableA"',
+      );
+    });
+  });
+
   suite('select(table, columns)', () => {
     test('allow to join values from different tables', () => {
       rljson = Rljson.exampleWithDeepLink;
@@ -432,6 +744,19 @@ suite('Rljson', () => {
       ]);
     });
 
+    test('returns null for empty links', () => {
+      rljson = Rljson.exampleWithDeepLink.addRow('a', {
+        value: 'a1',
+        bRef: null,
+      });
+
+      expect(rljson.select('a', ['value', 'bRef/cRef/value'])).toEqual([
+        ['a', 'c'],
+        ['a0', 'c'],
+        ['a1', null],
+      ]);
+    });
+
     suite('throws', () => {
       test('when table is not found', () => {
         let exception;
@@ -447,6 +772,225 @@ suite('Rljson', () => {
     });
   });
 
+  suite('lists of links', () => {
+    let postHash: string;
+    let redHash: string;
+    let greenHash: string;
+
+    beforeEach(() => {
+      rljson = Rljson.exampleWithLinkList;
+      postHash = rljson.hash({ table: 'post', index: 0 });
+      redHash = rljson.hash({ table: 'tag', index: 0 });
+      greenHash = rljson.hash({ table: 'tag', index: 1 });
+    });
+
+    test('value() returns a list of linked rows', () => {
+      expect(
+        rljson.value({
+          table: 'post',
+          itemHash: postHash,
+          followLink: ['tagRefs'],
+        }),
+      ).toEqual([rljson.row('tag', redHash), rljson.row('tag', greenHash)]);
+    });
+
+    test('value() returns a list of linked values', () => {
+      expect(
+        rljson.value({
+          table: 'post',
+          itemHash: postHash,
+          followLink: ['tagRefs', 'name'],
+        }),
+      ).toEqual(['red', 'green']);
+    });
+
+    test('select() returns a list of linked values', () => {
+      expect(rljson.select('post', ['title', 'tagRefs/name'])).toEqual([
+        ['Hello', ['red', 'green']],
+      ]);
+    });
+
+    test('select() keeps empty links in lists', () => {
+      rljson = rljson.addRow('post', {
+        title: 'Partly tagged',
+        tagRefs: [redHash, null],
+      });
+
+      expect(rljson.select('post', ['title', 'tagRefs/name'])).toEqual([
+        ['Hello', ['red', 'green']],
+        ['Partly tagged', ['red', null]],
+      ]);
+    });
+
+    test('ls() lists a path for each link', () => {
+      expect(rljson.ls()).toEqual([
+        `tag/${redHash}/name`,
+        `tag/${greenHash}/name`,
+        `post/${postHash}/title`,
+        `post/${postHash}/tagRefs/0`,
+        `post/${postHash}/tagRefs/1`,
+      ]);
+    });
+
+    test('referencedBy() returns rows linking via a list', () => {
+      expect(rljson.referencedBy('tag', greenHash)).toEqual([
+        { table: 'post', hash: postHash, column: 'tagRefs' },
+      ]);
+    });
+
+    test('removeRows() removes rows linking via a list', () => {
+      expect(() => rljson.removeRows('tag', [redHash])).toThrow(
+        `Cannot remove item "${redHash}" from table "tag". It is referenced by item "${postHash}" in table "post".`,
+      );
+
+      const rljson2 = rljson.removeRows('tag', [redHash], { cascade: true });
+      expect(rljson2.data.post._data).toEqual([]);
+      expect(rljson2.data.tag._data).toEqual([rljson.row('tag', greenHash)]);
+    });
+
+    test('extract() returns all linked rows', () => {
+      const extracted = rljson.extract('post', postHash);
+      expect(extracted.data).toEqual(rljson.data);
+    });
+
+    test('empty links in lists are ignored', () => {
+      rljson = rljson.addData({
+        post: { _data: [{ title: 'Empty', tagRefs: [null] }] },
+      });
+
+      expect(() => rljson.checkLinks()).not.toThrow();
+    });
+
+    test('brokenLinks() returns broken links in lists', () => {
+      rljson = rljson.addData({
+        post: { _data: [{ title: 'Broken', tagRefs: [redHash, 'broken'] }] },
+      });
+      const brokenHash = rljson.hash({ table: 'post', index: 1 });
+
+      expect(rljson.brokenLinks()).toEqual([
+        {
+          sourceTable: 'post',
+          sourceHash: brokenHash,
+          column: 'tagRefs',
+          targetTable: 'tag',
+          targetHash: 'broken',
+          reason: 'missingRow',
+        },
+      ]);
+    });
+
+    test('throws when a list of links is not a list', () => {
+      expect(() =>
+        rljson.addData({ post: { _data: [{ tagRefs: redHash }] } }),
+      ).toThrow(/Column "tagRefs" of item ".*" must contain a list of hashes./);
+    });
+  });
+
+  suite('links to declared tables', () => {
+    let bookHash: string;
+    let annHash: string;
+    let bobHash: string;
+
+    beforeEach(() => {
+      rljson = Rljson.empty()
+        .createTable('person', { name: { type: 'string' } })
+        .addRow('person', { name: 'Ann' })
+        .addRow('person', { name: 'Bob' });
+
+      annHash = rljson.hash({ table: 'person', index: 0 });
+      bobHash = rljson.hash({ table: 'person', index: 1 });
+
+      rljson = rljson
+        .createTable('book', {
+          title: { type: 'string' },
+          authorRef: { type: 'ref', table: 'person' },
+          reviewerRefs: { type: 'refs', table: 'person' },
+        })
+        .addRow('book', {
+          title: 'Rljson',
+          authorRef: annHash,
+          reviewerRefs: [bobHash],
+        });
+
+      bookHash = rljson.hash({ table: 'book', index: 0 });
+    });
+
+    test('linkedTable() returns the declared table', () => {
+      expect(rljson.linkedTable('book', 'authorRef')).toBe('person');
+      expect(rljson.linkedTable('book', 'reviewerRefs')).toBe('person');
+      expect(rljson.linkedTable('book', 'personRef')).toBe('person');
+      expect(rljson.linkedTable('book', 'title')).toBeUndefined();
+      expect(rljson.linkedTable('unknown', 'xRef')).toBe('x');
+    });
+
+    test('value() follows the links', () => {
+      expect(
+        rljson.value({
+          table: 'book',
+          itemHash: bookHash,
+          followLink: ['authorRef', 'name'],
+        }),
+      ).toBe('Ann');
+    });
+
+    test('select() follows the links', () => {
+      expect(
+        rljson.select('book', ['title', 'authorRef/name', 'reviewerRefs/name']),
+      ).toEqual([['Rljson', 'Ann', ['Bob']]]);
+    });
+
+    test('checkLinks() checks the declared table', () => {
+      expect(() => rljson.checkLinks()).not.toThrow();
+
+      const broken = rljson.addRow('book', {
+        title: 'Broken',
+        authorRef: 'unknown',
+        reviewerRefs: [],
+      });
+
+      expect(() => broken.checkLinks()).toThrow(
+        'which links to not existing item "unknown" in table "person"',
+      );
+    });
+
+    test('referencedBy() returns the linking rows', () => {
+      expect(rljson.referencedBy('person', annHash)).toEqual([
+        { table: 'book', hash: bookHash, column: 'authorRef' },
+      ]);
+      expect(rljson.referencedBy('person', bobHash)).toEqual([
+        { table: 'book', hash: bookHash, column: 'reviewerRefs' },
+      ]);
+    });
+
+    test('extract() follows the links', () => {
+      expect(rljson.extract('book', bookHash).data).toEqual(rljson.data);
+    });
+
+    test('declaring columns later updates the links of existing rows', () => {
+      rljson = Rljson.fromJson({
+        person: { _data: [{ name: 'Ann' }] },
+        book: { _data: [{ authorRef: annHash }] },
+      });
+      expect(rljson.referencedBy('person', annHash)).toEqual([]);
+
+      rljson = rljson.addData({
+        book: {
+          _columns: { authorRef: { type: 'ref', table: 'person' } },
+          _data: [],
+        },
+      });
+
+      expect(rljson.referencedBy('person', annHash)).toEqual([
+        {
+          table: 'book',
+          hash: rljson.hash({ table: 'book', index: 0 }),
+          column: 'authorRef',
+        },
+      ]);
+      expect(rljson.brokenLinks()).toEqual([]);
+    });
+  });
+
   suite('addData(data)', () => {
     suite('throws', () => {
       test('when validateHashes is true and hashes are missing', () => {
@@ -555,60 +1099,558 @@ suite('Rljson', () => {
       ]);
     });
 
-    suite('with inPlace', () => {
-      suite('true', () => {
-        test('modifies the original object', () => {
-          const rljson2 = rljson.addData({
-            tableX: {
-              _data: [{ keyA2: 'a2' }],
-            },
-          });
+    test('checks the links of added rows with checkLinks', () => {
+      const data = { b: { _data: [{ aRef: a0Hash }] } };
+      expect(() => rljson.addData(data, { checkLinks: true })).toThrow(
+        `links to not existing table "aRef".`,
+      );
+
+      const added = rljson.addData(
+        { ...data, a: { _data: [{ keyA0: 'a0' }] } },
+        {
+          checkLinks: true,
+        },
+      );
+      expect(added.hasTable('b')).toBe(true);
+    });
 
-          rljson2.hasTable('tableX');
-          rljson2.hasTable('tableX');
-          expect(rljson2).toBe(rljson);
+    suite('does not modify', () => {
+      test('the original object', () => {
+        const dataBefore = JSON.parse(JSON.stringify(rljson.data));
+        const rljson2 = rljson.addData({
+          tableA: {
+            _data: [{ keyA2: 'a2' }],
+          },
+          tableX: {
+            _data: [{ keyX0: 'x0' }],
+          },
         });
+
+        expect(rljson2).not.toBe(rljson);
+        expect(rljson2.hasTable('tableX')).toBe(true);
+        expect(rljson.hasTable('tableX')).toBe(false);
+        expect(rljson.data).toEqual(dataBefore);
+        expect(Object.keys(rljson.tableIndexed('tableA'))).toEqual([
+          a0Hash,
+          a1Hash,
+        ]);
       });
-    });
-  });
 
-  suite('checkLinks()', () => {
-    test('does nothing when all links are ok', () => {
-      rljson = Rljson.exampleWithLink;
-      expect(() => rljson.checkLinks()).not.toThrow();
-    });
+      test('the added data', () => {
+        const addedData = {
+          tableA: {
+            _data: [{ keyA2: 'a2' }],
+          },
+        };
 
-    suite('throws', () => {
-      test('when the table of a link does not exist', () => {
-        rljson = Rljson.exampleWithLink;
+        rljson.addData(addedData);
 
-        const jsonWithBrokenLink = rljson.addData({
+        expect(addedData).toEqual({
           tableA: {
-            _data: [
-              {
-                nonExistingTableRef: 'a2',
-              },
-            ],
+            _data: [{ keyA2: 'a2' }],
           },
         });
+      });
+    });
 
-        a0Hash = jsonWithBrokenLink.hash({ table: 'tableA', index: 2 });
+    suite('shares', () => {
+      test('tables that are not changed', () => {
+        const rljson2 = rljson.addData({
+          tableA: {
+            _data: [{ keyA2: 'a2' }],
+          },
+        });
 
-        let message;
+        expect(rljson2.data.tableB).toBe(rljson.data.tableB);
+        expect(rljson2.dataIndexed.tableB).toBe(rljson.dataIndexed.tableB);
+        expect(rljson2.data.tableA).not.toBe(rljson.data.tableA);
+      });
 
-        try {
-          jsonWithBrokenLink.checkLinks();
-        } catch (e: any) {
-          message = e.toString();
-        }
+      test('tables where all added rows already exist', () => {
+        const rljson2 = rljson.addData({
+          tableA: {
+            _data: [{ keyA1: 'a1' }],
+          },
+        });
 
-        expect(message).toBe(
-          `Error: Table "tableA" has an item "Bg6wGMJaKpfLImKIRtP2Ct" which links to not existing table "nonExistingTableRef".`,
-        );
+        expect(rljson2.data.tableA).toBe(rljson.data.tableA);
+        expect(rljson2.dataIndexed.tableA).toBe(rljson.dataIndexed.tableA);
       });
 
-      test('when linked item does not exist', () => {
-        rljson = Rljson.exampleWithLink;
+      test('rows that are not changed', () => {
+        const rljson2 = rljson.addData({
+          tableA: {
+            _data: [{ keyA2: 'a2' }],
+          },
+        });
+
+        expect(rljson2.row('tableA', a0Hash)).toBe(
+          rljson.row('tableA', a0Hash),
+        );
+      });
+    });
+
+    test('recalculates the hashes of merged tables', () => {
+      const rljson2 = rljson.addData({
+        tableA: {
+          _data: [{ keyA2: 'a2' }],
+        },
+      });
+
+      expect(() => JsonHash.default.validate(rljson2.data)).not.toThrow();
+      expect(rljson2.data.tableA._hash).not.toBe(rljson.data.tableA._hash);
+    });
+  });
+
+  suite('addData(data) with _columns', () => {
+    const columns = {
+      name: { type: 'string' },
+      age: { type: 'number', nullable: true },
+    };
+
+    test('adds rows matching the columns', () => {
+      const rljson2 = Rljson.fromJson({
+        person: {
+          _columns: columns,
+          _data: [{ name: 'Ada', age: 36 }, { name: 'Alan' }],
+        },
+      });
+
+      expect(rljson2.table('person')._data.length).toBe(2);
+    });
+
+    test('includes the columns into the hashes', () => {
+      const withColumns = Rljson.fromJson({
+        person: { _columns: columns, _data: [{ name: 'Ada' }] },
+      });
+
+      const withoutColumns = Rljson.fromJson({
+        person: { _data: [{ name: 'Ada' }] },
+      });
+
+      expect(withColumns.data.person._hash).not.toBe(
+        withoutColumns.data.person._hash,
+      );
+      expect(withColumns.data._hash).not.toBe(withoutColumns.data._hash);
+    });
+
+    test('checks rows added to existing tables', () => {
+      const rljson2 = Rljson.fromJson({
+        person: { _columns: columns, _data: [{ name: 'Ada' }] },
+      });
+
+      expect(() =>
+        rljson2.addData({ person: { _data: [{ name: 'Alan', age: '41' }] } }),
+      ).toThrow('Column "age" in table "person" must be of type "number".');
+
+      const rljson3 = rljson2.addData({
+        person: { _data: [{ name: 'Alan', age: 41 }] },
+      });
+      expect(rljson3.table('person')._columns).toBe(
+        rljson2.table('person')._columns,
+      );
+    });
+
+    test('accepts the same columns again', () => {
+      const rljson2 = Rljson.fromJson({
+        person: { _columns: columns, _data: [{ name: 'Ada' }] },
+      });
+
+      const rljson3 = rljson2.addData({
+        person: { _columns: columns, _data: [] },
+      });
+
+      expect(rljson3.table('person')).toBe(rljson2.table('person'));
+    });
+
+    test('allows to declare columns for existing tables', () => {
+      const rljson2 = rljson.addData({
+        tableA: {
+          _columns: {
+            keyA0: { type: 'string', nullable: true },
+            keyA1: { type: 'string', nullable: true },
+          },
+          _data: [],
+        },
+      });
+
+      expect(rljson2.table('tableA')._columns.keyA0.type).toBe('string');
+      expect(rljson2.table('tableA')._data).toBe(rljson.table('tableA')._data);
+      expect(rljson2.table('tableA')._hash).not.toBe(
+        rljson.table('tableA')._hash,
+      );
+    });
+
+    suite('throws', () => {
+      test('when rows do not match the columns', () => {
+        expect(() =>
+          Rljson.fromJson({
+            person: { _columns: columns, _data: [{ nmae: 'Ada' }] },
+          }),
+        ).toThrow('Table "person" has no column "nmae".');
+      });
+
+      test('when the columns are invalid', () => {
+        expect(() =>
+          Rljson.fromJson({
+            person: { _columns: { name: { type: 'text' } }, _data: [] },
+          }),
+        ).toThrow('Column "name" in table "person" has invalid type "text".');
+      });
+
+      test('when existing rows do not match added columns', () => {
+        expect(() =>
+          rljson.addData({
+            tableA: {
+              _columns: { keyA0: { type: 'string' } },
+              _data: [],
+            },
+          }),
+        ).toThrow('Table "tableA" has no column "keyA1".');
+      });
+
+      test('when the columns of a table are changed', () => {
+        const rljson2 = Rljson.fromJson({
+          person: { _columns: columns, _data: [] },
+        });
+
+        expect(() =>
+          rljson2.addData({
+            person: { _columns: { name: { type: 'string' } }, _data: [] },
+          }),
+        ).toThrow('Columns of table "person" must not be changed.');
+      });
+    });
+  });
+
+  suite('referencedBy(table, hash, sourceTable)', () => {
+    let hashB: string;
+    let hashC: string;
+    let hashD: string;
+
+    beforeEach(() => {
+      rljson = Rljson.exampleWithDeepLink;
+      hashB = rljson.hash({ table: 'b', index: 0 });
+      hashC = rljson.hash({ table: 'c', index: 0 });
+      hashD = rljson.hash({ table: 'd', index: 0 });
+    });
+
+    test('returns the rows linking to the row', () => {
+      expect(rljson.referencedBy('d', hashD)).toEqual([
+        { table: 'c', hash: hashC, column: 'dRef' },
+      ]);
+
+      expect(rljson.referencedBy('b', hashB)).toEqual([
+        {
+          table: 'a',
+          hash: rljson.hash({ table: 'a', index: 0 }),
+          column: 'bRef',
+        },
+        {
+          table: 'a',
+          hash: rljson.hash({ table: 'a', index: 1 }),
+          column: 'bRef',
+        },
+      ]);
+    });
+
+    test('returns only rows of the source table', () => {
+      const rljson2 = rljson.addData({
+        e: { _data: [{ dRef: hashD }] },
+      });
+
+      expect(rljson2.referencedBy('d', hashD).length).toBe(2);
+      expect(rljson2.referencedBy('d', hashD, 'e')).toEqual([
+        {
+          table: 'e',
+          hash: rljson2.hash({ table: 'e', index: 0 }),
+          column: 'dRef',
+        },
+      ]);
+    });
+
+    test('returns an empty list when the row is not referenced', () => {
+      const hashA = rljson.hash({ table: 'a', index: 0 });
+      expect(rljson.referencedBy('a', hashA)).toEqual([]);
+    });
+
+    test('ignores empty links', () => {
+      const rljson2 = Rljson.fromJson({
+        a: { _data: [{ bRef: null, value: 'a' }] },
+      });
+
+      expect(rljson2.referencedBy('b', 'null')).toEqual([]);
+    });
+
+    test('is kept up to date when rows are added', () => {
+      const rljson2 = rljson.addRow('c', { dRef: hashD, value: 'c1' });
+
+      expect(rljson2.referencedBy('d', hashD).length).toBe(2);
+      expect(rljson.referencedBy('d', hashD).length).toBe(1);
+      expect(rljson2.createIndex('c', 'value').backlinks).toBe(
+        rljson2.backlinks,
+      );
+    });
+
+    test('is kept up to date when rows are removed', () => {
+      const rljson2 = rljson.removeRows('c', [hashC], { cascade: true });
+
+      expect(rljson2.referencedBy('d', hashD)).toEqual([]);
+      expect(rljson2.referencedBy('b', hashB)).toEqual([]);
+      expect(rljson.referencedBy('d', hashD).length).toBe(1);
+    });
+  });
+
+  suite('removeRows(table, hashes, options)', () => {
+    test('returns a new object without the rows', () => {
+      const rljson2 = rljson.removeRows('tableA', [a0Hash]);
+      expect(rljson2.data.tableA._data).toEqual([
+        { keyA1: 'a1', _hash: a1Hash },
+      ]);
+      expect(Object.keys(rljson2.tableIndexed('tableA'))).toEqual([a1Hash]);
+    });
+
+    test('does not modify the original object', () => {
+      rljson.removeRows('tableA', [a0Hash]);
+      expect(Object.keys(rljson.tableIndexed('tableA'))).toEqual([
+        a0Hash,
+        a1Hash,
+      ]);
+    });
+
+    test('recalculates table and root hashes', () => {
+      const rljson2 = rljson.removeRows('tableA', [a0Hash]);
+      const expected = Rljson.fromJson({
+        tableA: { _data: [{ keyA1: 'a1' }] },
+        tableB: { _data: [{ keyB0: 'b0' }, { keyB1: 'b1' }] },
+      });
+
+      expect(rljson2.data.tableA._hash).toBe(expected.data.tableA._hash);
+      expect(rljson2.data._hash).toBe(expected.data._hash);
+      expect(rljson2.data.tableB).toBe(rljson.data.tableB);
+    });
+
+    test('removes rows that are not referenced anymore', () => {
+      rljson = Rljson.exampleWithDeepLink;
+      const hashA = rljson.hash({ table: 'a', index: 0 });
+      const rljson2 = rljson.removeRows('a', [hashA]);
+      expect(rljson2.data.a._data.length).toBe(1);
+    });
+
+    suite('throws', () => {
+      test('when the row does not exist', () => {
+        let exception;
+
+        try {
+          rljson.removeRows('tableA', ['nonExistingHash']);
+        } catch (e: any) {
+          exception = e;
+        }
+
+        expect(exception.toString()).toBe(
+          'Error: Item not found with hash "nonExistingHash" in table "tableA"',
+        );
+      });
+
+      test('when the row is referenced by another row', () => {
+        rljson = Rljson.exampleWithDeepLink;
+        const hashC = rljson.hash({ table: 'c', index: 0 });
+        const hashB = rljson.hash({ table: 'b', index: 0 });
+        let exception;
+
+        try {
+          rljson.removeRows('c', [hashC]);
+        } catch (e: any) {
+          exception = e;
+        }
+
+        expect(exception.toString()).toBe(
+          `Error: Cannot remove item "${hashC}" from table "c". ` +
+            `It is referenced by item "${hashB}" in table "b".`,
+        );
+      });
+    });
+
+    suite('with cascade', () => {
+      test('removes all rows referencing the removed rows', () => {
+        rljson = Rljson.exampleWithDeepLink;
+        const hashC = rljson.hash({ table: 'c', index: 0 });
+        const rljson2 = rljson.removeRows('c', [hashC], { cascade: true });
+
+        expect(rljson2.data.a._data).toEqual([]);
+        expect(rljson2.data.b._data).toEqual([]);
+        expect(rljson2.data.c._data).toEqual([]);
+        expect(rljson2.data.d._data.length).toBe(1);
+        expect(() => rljson2.checkLinks()).not.toThrow();
+      });
+    });
+  });
+
+  suite('collectGarbage(roots)', () => {
+    test('removes all rows not reachable from the roots', () => {
+      rljson = Rljson.exampleWithDeepLink;
+      const hashA0 = rljson.hash({ table: 'a', index: 1 });
+      const rljson2 = rljson
+        .addData({ d: { _data: [{ value: 'd1' }] } })
+        .collectGarbage([{ table: 'a', hash: hashA0 }]);
+
+      expect(rljson2.data.a._data.map((item: any) => item.value)).toEqual([
+        'a0',
+      ]);
+      expect(rljson2.data.b._data.length).toBe(1);
+      expect(rljson2.data.c._data.length).toBe(1);
+      expect(rljson2.data.d._data.map((item: any) => item.value)).toEqual([
+        'd',
+      ]);
+      expect(() => rljson2.checkLinks()).not.toThrow();
+      expect(() => JsonHash.default.validate(rljson2.data)).not.toThrow();
+    });
+
+    test('keeps tables that become empty', () => {
+      const rljson2 = rljson.collectGarbage([
+        { table: 'tableA', hash: a1Hash },
+      ]);
+
+      expect(rljson2.data.tableA._data).toEqual([
+        { keyA1: 'a1', _hash: a1Hash },
+      ]);
+      expect(rljson2.data.tableB._data).toEqual([]);
+    });
+
+    test('ignores broken links', () => {
+      rljson = Rljson.exampleWithLink.addData({
+        linkToTableA: { _data: [{ tableARef: 'brokenHash' }] },
+      });
+      const hash = rljson.hash({ table: 'linkToTableA', index: 1 });
+      const rljson2 = rljson.collectGarbage([
+        { table: 'linkToTableA', hash },
+        { table: 'linkToTableA', hash },
+      ]);
+
+      expect(rljson2.data.linkToTableA._data.length).toBe(1);
+      expect(rljson2.data.tableA._data).toEqual([]);
+    });
+
+    test('visits rows linked multiple times only once', () => {
+      rljson = Rljson.exampleWithDeepLink;
+      const rljson2 = rljson.collectGarbage(
+        rljson.data.a._data.map((item: any) => ({
+          table: 'a',
+          hash: item._hash,
+        })),
+      );
+
+      expect(rljson2.data).toEqual(rljson.data);
+    });
+
+    test('throws when a root does not exist', () => {
+      let exception;
+
+      try {
+        rljson.collectGarbage([{ table: 'tableA', hash: 'nonExistingHash' }]);
+      } catch (e: any) {
+        exception = e;
+      }
+
+      expect(exception.toString()).toBe(
+        'Error: Item not found with hash "nonExistingHash" in table "tableA"',
+      );
+    });
+  });
+
+  suite('extract(table, hash)', () => {
+    test('returns the row and all rows it links to', () => {
+      rljson = Rljson.exampleWithDeepLink.addData({
+        d: { _data: [{ value: 'd1' }] },
+        e: { _data: [{ value: 'e' }] },
+      });
+      const hashA0 = rljson.hash({ table: 'a', index: 1 });
+      const extracted = rljson.extract('a', hashA0);
+
+      expect(Object.keys(extracted.dataIndexed)).toEqual(['d', 'c', 'b', 'a']);
+      expect(extracted.data.a._data).toEqual([rljson.row('a', hashA0)]);
+      expect(extracted.data.b._data.length).toBe(1);
+      expect(extracted.data.c._data.length).toBe(1);
+      expect(extracted.data.d._data.map((item: any) => item.value)).toEqual([
+        'd',
+      ]);
+      expect(() => extracted.checkLinks()).not.toThrow();
+      expect(() => JsonHash.default.validate(extracted.data)).not.toThrow();
+    });
+
+    test('keeps the header of tables', () => {
+      rljson = Rljson.empty()
+        .createTable('tags', { name: { type: 'string' } })
+        .addRow('tags', { name: 'red' });
+      const hash = rljson.hash({ table: 'tags', index: 0 });
+
+      expect(rljson.extract('tags', hash).data).toEqual(rljson.data);
+    });
+
+    test('does not modify the original instance', () => {
+      rljson = Rljson.exampleWithDeepLink;
+      const data = JSON.stringify(rljson.data);
+      rljson.extract('a', rljson.hash({ table: 'a', index: 0 }));
+      expect(JSON.stringify(rljson.data)).toBe(data);
+    });
+
+    test('throws when a link is broken', () => {
+      rljson = Rljson.exampleWithLink.addData({
+        linkToTableA: { _data: [{ tableARef: 'brokenHash' }] },
+      });
+      const hash = rljson.hash({ table: 'linkToTableA', index: 1 });
+
+      expect(() => rljson.extract('linkToTableA', hash)).toThrow(
+        'Table "linkToTableA" has an item "' +
+          hash +
+          '" which links to not existing table "tableARef".',
+      );
+    });
+
+    test('throws when the row does not exist', () => {
+      expect(() => rljson.extract('tableA', 'nonExistingHash')).toThrow(
+        'Item not found with hash "nonExistingHash" in table "tableA"',
+      );
+    });
+  });
+
+  suite('checkLinks()', () => {
+    test('does nothing when all links are ok', () => {
+      rljson = Rljson.exampleWithLink;
+      expect(() => rljson.checkLinks()).not.toThrow();
+    });
+
+    suite('throws', () => {
+      test('when the table of a link does not exist', () => {
+        rljson = Rljson.exampleWithLink;
+
+        const jsonWithBrokenLink = rljson.addData({
+          tableA: {
+            _data: [
+              {
+                nonExistingTableRef: 'a2',
+              },
+            ],
+          },
+        });
+
+        a0Hash = jsonWithBrokenLink.hash({ table: 'tableA', index: 2 });
+
+        let message;
+
+        try {
+          jsonWithBrokenLink.checkLinks();
+        } catch (e: any) {
+          message = e.toString();
+        }
+
+        expect(message).toBe(
+          `Error: Table "tableA" has an item "Bg6wGMJaKpfLImKIRtP2Ct" which links to not existing table "nonExistingTableRef".`,
+        );
+      });
+
+      test('when linked item does not exist', () => {
+        rljson = Rljson.exampleWithLink;
 
         const jsonWithBrokenLink = rljson.addData({
           linkToTableA: {
@@ -640,6 +1682,276 @@ suite('Rljson', () => {
     });
   });
 
+  suite('brokenLinks()', () => {
+    test('returns an empty list when all links are ok', () => {
+      rljson = Rljson.exampleWithDeepLink;
+      expect(rljson.brokenLinks()).toEqual([]);
+    });
+
+    test('returns all broken links', () => {
+      rljson = Rljson.exampleWithLink.addData({
+        tableA: {
+          _data: [{ nonExistingTableRef: 'a2' }],
+        },
+        linkToTableA: {
+          _data: [{ tableARef: 'brokenHash0' }, { tableARef: 'brokenHash1' }],
+        },
+      });
+
+      const hash = (table: string, index: number) =>
+        rljson.hash({ table, index });
+
+      expect(rljson.brokenLinks()).toEqual([
+        {
+          sourceTable: 'tableA',
+          sourceHash: hash('tableA', 2),
+          column: 'nonExistingTableRef',
+          targetTable: 'nonExistingTable',
+          targetHash: 'a2',
+          reason: 'missingTable',
+        },
+        {
+          sourceTable: 'linkToTableA',
+          sourceHash: hash('linkToTableA', 1),
+          column: 'tableARef',
+          targetTable: 'tableA',
+          targetHash: 'brokenHash0',
+          reason: 'missingRow',
+        },
+        {
+          sourceTable: 'linkToTableA',
+          sourceHash: hash('linkToTableA', 2),
+          column: 'tableARef',
+          targetTable: 'tableA',
+          targetHash: 'brokenHash1',
+          reason: 'missingRow',
+        },
+      ]);
+    });
+  });
+
+  suite('diff(a, b)', () => {
+    test('returns no differences for equal instances', () => {
+      expect(Rljson.diff(rljson, Rljson.example)).toEqual({
+        rootHashChanged: false,
+        addedTables: [],
+        removedTables: [],
+        tables: {},
+      });
+    });
+
+    test('returns added and removed rows', () => {
+      const rljson2 = rljson
+        .addData({ tableA: { _data: [{ keyA2: 'a2' }] } })
+        .removeRows('tableA', [a0Hash]);
+      const a2Hash = rljson2.hash({ table: 'tableA', index: 1 });
+
+      expect(Rljson.diff(rljson, rljson2)).toEqual({
+        rootHashChanged: true,
+        addedTables: [],
+        removedTables: [],
+        tables: {
+          tableA: { addedRows: [a2Hash], removedRows: [a0Hash] },
+        },
+      });
+    });
+
+    test('returns added and removed tables', () => {
+      const rljson2 = Rljson.fromJson({
+        tableA: rljson.data.tableA,
+        tableC: { _data: [{ keyC0: 'c0' }] },
+      });
+      const c0Hash = rljson2.hash({ table: 'tableC', index: 0 });
+
+      expect(Rljson.diff(rljson, rljson2)).toEqual({
+        rootHashChanged: true,
+        addedTables: ['tableC'],
+        removedTables: ['tableB'],
+        tables: {
+          tableB: { addedRows: [], removedRows: [b0Hash, b1Hash] },
+          tableC: { addedRows: [c0Hash], removedRows: [] },
+        },
+      });
+    });
+
+    test('skips tables with equal hashes', () => {
+      const rljson2 = rljson.addData({
+        tableA: { _data: [{ keyA2: 'a2' }] },
+      });
+
+      expect(Object.keys(Rljson.diff(rljson, rljson2).tables)).toEqual([
+        'tableA',
+      ]);
+    });
+  });
+
+  suite('createPatch(a, b), applyPatch(patch)', () => {
+    const roundTrip = (a: Rljson, b: Rljson) => {
+      const patch = JSON.parse(JSON.stringify(Rljson.createPatch(a, b)));
+      return a.applyPatch(patch);
+    };
+
+    test('turn a into b when rows are added and removed', () => {
+      const rljson2 = rljson
+        .addData({ tableA: { _data: [{ keyA2: 'a2' }] } })
+        .removeRows('tableB', [b0Hash]);
+
+      const patched = roundTrip(rljson, rljson2);
+      expect(patched.data).toEqual(rljson2.data);
+      expect(patched.ls()).toEqual(rljson2.ls());
+    });
+
+    test('turn a into b when tables are created and removed', () => {
+      const rljson2 = Rljson.fromJson({
+        tableA: rljson.data.tableA,
+        tableC: {
+          _columns: { keyC0: { type: 'string' } },
+          _data: [{ keyC0: 'c0' }],
+        },
+        tableD: { _data: [] },
+      });
+
+      const patch = Rljson.createPatch(rljson, rljson2);
+      expect(patch.removedTables).toEqual(['tableB']);
+      expect(patch.removedRows).toEqual({});
+      expect(Object.keys(patch.createdTables)).toEqual(['tableC', 'tableD']);
+      expect(Object.keys(patch.addedRows)).toEqual(['tableC']);
+
+      const patched = roundTrip(rljson, rljson2);
+      expect(patched.data).toEqual(rljson2.data);
+      expect(patched.hasTable('tableB')).toBe(false);
+      expect(patched.table('tableC')._columns.keyC0.type).toBe('string');
+    });
+
+    test('turn a into b when the order of rows changes', () => {
+      const a0 = rljson.row('tableA', a0Hash);
+      const rljson2 = rljson
+        .removeRows('tableA', [a0Hash])
+        .addRow('tableA', a0);
+
+      const patched = roundTrip(rljson, rljson2);
+      expect(patched.data).toEqual(rljson2.data);
+      expect(patched.hash({ table: 'tableA', index: 1 })).toBe(a0Hash);
+    });
+
+    test('notify subscribers about the result', () => {
+      const a0 = rljson.row('tableA', a0Hash);
+      const rljson2 = rljson
+        .removeRows('tableA', [a0Hash])
+        .addRow('tableA', a0)
+        .addRow('tableA', { keyA2: 'a2' });
+
+      const events: any[] = [];
+      rljson.subscribe((e) => events.push(e));
+
+      const patch = Rljson.createPatch(rljson, rljson2);
+      expect(() =>
+        rljson.applyPatch({ ...patch, resultHash: 'wrongHash' }),
+      ).toThrow();
+      expect(events).toEqual([]);
+
+      const patched = rljson.applyPatch(patch);
+      expect(events.length).toBe(1);
+      expect(events[0].rljson).toBe(patched);
+      expect(events[0].hash).toBe(rljson2.data._hash);
+      expect(events[0].added.tableA.map((r: any) => r.keyA2)).toEqual(['a2']);
+    });
+
+    test('turn a into b when columns are declared', () => {
+      const rljson2 = rljson.addData({
+        tableA: {
+          _columns: {
+            keyA0: { type: 'string', nullable: true },
+            keyA1: { type: 'string', nullable: true },
+          },
+          _data: [],
+        },
+      });
+
+      const patched = roundTrip(rljson, rljson2);
+      expect(patched.data).toEqual(rljson2.data);
+      expect(patched.table('tableA')._columns.keyA0.type).toBe('string');
+    });
+
+    test('keep backlinks and indexes up to date', () => {
+      rljson = Rljson.exampleWithDeepLink.createIndex('a', 'value');
+      const hashC = rljson.hash({ table: 'c', index: 0 });
+      const hashD = rljson.hash({ table: 'd', index: 0 });
+      const rljson2 = rljson.removeRows('c', [hashC], { cascade: true });
+      const rljson3 = Rljson.fromJson({ d: rljson2.data.d });
+
+      const patched = roundTrip(rljson, rljson2);
+      expect(patched.referencedBy('d', hashD)).toEqual([]);
+      expect(patched.items({ table: 'a', where: { value: 'a' } })).toEqual([]);
+
+      const patched2 = roundTrip(rljson, rljson3);
+      expect(patched2.indexes.a).toBeUndefined();
+      expect(patched2.data).toEqual(rljson3.data);
+    });
+
+    test('return an equal instance for an empty patch', () => {
+      const patched = roundTrip(rljson, Rljson.example);
+      expect(patched.data).toEqual(rljson.data);
+    });
+
+    suite('throws', () => {
+      test('when the base hash does not match', () => {
+        const rljson2 = rljson.addData({
+          tableA: { _data: [{ keyA2: 'a2' }] },
+        });
+        const patch = Rljson.createPatch(rljson, rljson2);
+
+        expect(() => rljson2.applyPatch(patch)).toThrow(
+          `Patch base hash "${rljson.data._hash}" does not match root hash "${rljson2.data._hash}".`,
+        );
+      });
+
+      test('when the result hash does not match', () => {
+        const rljson2 = rljson.addData({
+          tableA: { _data: [{ keyA2: 'a2' }] },
+        });
+        const patch = Rljson.createPatch(rljson, rljson2);
+        patch.resultHash = 'wrongHash';
+
+        expect(() => rljson.applyPatch(patch)).toThrow(
+          /^Patch result hash "wrongHash" does not match root hash/,
+        );
+      });
+
+      test('when an added row was modified', () => {
+        const rljson2 = rljson.addData({
+          tableA: { _data: [{ keyA2: 'a2' }] },
+        });
+        const patch = Rljson.createPatch(rljson, rljson2);
+        const hash = patch.addedRows.tableA[0]._hash!;
+        patch.addedRows.tableA[0].keyA2 = 'EVIL';
+
+        expect(() => rljson.applyPatch(patch)).toThrow(hash);
+      });
+
+      test('when the row order does not match the rows', () => {
+        const rljson2 = rljson.addData({
+          tableA: { _data: [{ keyA2: 'a2' }] },
+        });
+        const patch = Rljson.createPatch(rljson, rljson2);
+        patch.changedTables.tableA._data.pop();
+
+        expect(() => rljson.applyPatch(patch)).toThrow(
+          'Row order of table "tableA" does not match its rows.',
+        );
+      });
+
+      test('when removed rows do not exist', () => {
+        const patch = Rljson.createPatch(rljson, rljson);
+        patch.removedRows = { tableA: ['nonExistingHash'] };
+
+        expect(() => rljson.applyPatch(patch)).toThrow(
+          'Item not found with hash "nonExistingHash" in table "tableA"',
+        );
+      });
+    });
+  });
+
   suite('data', () => {
     suite('returns the data where the _data list is replaced by a map', () => {
       test('with example', () => {
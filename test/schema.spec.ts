@@ -0,0 +1,219 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { expect, suite, test } from 'vitest';
+
+import { Rlcolumns, Schema } from '../src/schema';
+
+suite('Schema', () => {
+  const columns: Rlcolumns = {
+    name: { type: 'string' },
+    age: { type: 'number', nullable: true },
+    active: { type: 'boolean', nullable: true },
+    details: { type: 'json', nullable: true },
+    addressRef: { type: 'ref', table: 'address', nullable: true },
+    tagRefs: { type: 'refs', table: 'tag', nullable: true },
+  };
+
+  const message = (fn: () => void) => {
+    let exception: any;
+
+    try {
+      fn();
+    } catch (e: any) {
+      exception = e;
+    }
+
+    return exception?.toString();
+  };
+
+  suite('checkColumns(table, columns)', () => {
+    test('does nothing when columns are valid', () => {
+      expect(() =>
+        Schema.checkColumns('person', {
+          ...columns,
+          _hash: 'abc',
+        } as any),
+      ).not.toThrow();
+    });
+
+    test('allows links to tables named differently', () => {
+      expect(() =>
+        Schema.checkColumns('person', {
+          authorRef: { type: 'ref', table: 'person' },
+          reviewerRefs: { type: 'refs', table: 'person' },
+        }),
+      ).not.toThrow();
+    });
+
+    suite('throws', () => {
+      test('when columns are not an object', () => {
+        expect(message(() => Schema.checkColumns('person', 5 as any))).toBe(
+          'Error: _columns of table "person" must be an object.',
+        );
+
+        expect(message(() => Schema.checkColumns('person', null as any))).toBe(
+          'Error: _columns of table "person" must be an object.',
+        );
+      });
+
+      test('when a type is invalid', () => {
+        expect(
+          message(() =>
+            Schema.checkColumns('person', { name: { type: 'text' } } as any),
+          ),
+        ).toBe(
+          'Error: Column "name" in table "person" has invalid type "text".',
+        );
+
+        expect(
+          message(() => Schema.checkColumns('person', { name: null } as any)),
+        ).toBe(
+          'Error: Column "name" in table "person" has invalid type "undefined".',
+        );
+      });
+
+      test('when a ref column does not end with Ref', () => {
+        expect(
+          message(() =>
+            Schema.checkColumns('person', { address: { type: 'ref' } }),
+          ),
+        ).toBe(
+          'Error: Column "address" in table "person" is of type "ref" but does not end with "Ref".',
+        );
+      });
+
+      test('when a column ending with Ref is not a ref', () => {
+        expect(
+          message(() =>
+            Schema.checkColumns('person', { addressRef: { type: 'string' } }),
+          ),
+        ).toBe(
+          'Error: Column "addressRef" in table "person" ends with "Ref" but is not of type "ref".',
+        );
+      });
+
+      test('when the linked table is not a name', () => {
+        expect(
+          message(() =>
+            Schema.checkColumns('person', {
+              addressRef: { type: 'ref', table: 5 },
+            } as any),
+          ),
+        ).toBe(
+          'Error: Column "addressRef" in table "person" must link to a table name.',
+        );
+      });
+
+      test('when a refs column does not end with Refs', () => {
+        expect(
+          message(() =>
+            Schema.checkColumns('person', { tags: { type: 'refs' } }),
+          ),
+        ).toBe(
+          'Error: Column "tags" in table "person" is of type "refs" but does not end with "Refs".',
+        );
+
+        expect(
+          message(() =>
+            Schema.checkColumns('person', { tagRefs: { type: 'json' } }),
+          ),
+        ).toBe(
+          'Error: Column "tagRefs" in table "person" ends with "Refs" but is not of type "refs".',
+        );
+      });
+    });
+  });
+
+  suite('checkRow(table, columns, row)', () => {
+    test('does nothing when the row is valid', () => {
+      expect(() =>
+        Schema.checkRow('person', columns, {
+          name: 'Ada',
+          age: 36,
+          active: true,
+          details: { hobbies: ['math'] },
+          addressRef: 'abc',
+          tagRefs: ['abc', 'def'],
+          _hash: 'xyz',
+        }),
+      ).not.toThrow();
+    });
+
+    test('accepts null and missing values for nullable columns', () => {
+      expect(() =>
+        Schema.checkRow('person', columns, { name: 'Ada', age: null }),
+      ).not.toThrow();
+    });
+
+    suite('throws', () => {
+      test('when a column is unknown', () => {
+        expect(
+          message(() => Schema.checkRow('person', columns, { nmae: 'Ada' })),
+        ).toBe('Error: Table "person" has no column "nmae".');
+      });
+
+      test('when a non nullable value is missing', () => {
+        expect(message(() => Schema.checkRow('person', columns, {}))).toBe(
+          'Error: Column "name" in table "person" must not be null.',
+        );
+      });
+
+      test('when a value has the wrong type', () => {
+        const check = (row: any) =>
+          message(() => Schema.checkRow('person', columns, row));
+
+        expect(check({ name: 5 })).toBe(
+          'Error: Column "name" in table "person" must be of type "string".',
+        );
+        expect(check({ name: 'Ada', age: '36' })).toBe(
+          'Error: Column "age" in table "person" must be of type "number".',
+        );
+        expect(check({ name: 'Ada', active: 1 })).toBe(
+          'Error: Column "active" in table "person" must be of type "boolean".',
+        );
+        expect(check({ name: 'Ada', details: 'x' })).toBe(
+          'Error: Column "details" in table "person" must be of type "json".',
+        );
+        expect(check({ name: 'Ada', addressRef: 5 })).toBe(
+          'Error: Column "addressRef" in table "person" must be of type "ref".',
+        );
+        expect(check({ name: 'Ada', tagRefs: 'abc' })).toBe(
+          'Error: Column "tagRefs" in table "person" must be of type "refs".',
+        );
+        expect(check({ name: 'Ada', tagRefs: ['abc', 5] })).toBe(
+          'Error: Column "tagRefs" in table "person" must be of type "refs".',
+        );
+      });
+    });
+  });
+
+  suite('equals(a, b)', () => {
+    test('returns true for equal columns', () => {
+      expect(
+        Schema.equals(columns, {
+          addressRef: { type: 'ref', table: 'address', nullable: true },
+          tagRefs: { type: 'refs', table: 'tag', nullable: true },
+          name: { type: 'string', nullable: false, _hash: 'abc' },
+          age: { type: 'number', nullable: true },
+          active: { type: 'boolean', nullable: true },
+          details: { type: 'json', nullable: true },
+          _hash: 'xyz',
+        } as any),
+      ).toBe(true);
+    });
+
+    test('returns false for different columns', () => {
+      expect(Schema.equals(columns, { name: { type: 'string' } })).toBe(false);
+      expect(
+        Schema.equals(
+          { name: { type: 'string' } },
+          { name: { type: 'string', nullable: true } },
+        ),
+      ).toBe(false);
+    });
+  });
+});
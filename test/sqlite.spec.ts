@@ -0,0 +1,149 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import Database from 'better-sqlite3';
+import { afterEach, beforeEach, expect, suite, test } from 'vitest';
+
+import { Rljson } from '../src/rljson';
+import { Sqlite } from '../src/sqlite';
+
+suite('Sqlite', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const roundTrip = (rljson: Rljson) => {
+    Sqlite.export(rljson, db);
+    return Sqlite.import(db);
+  };
+
+  suite('export(rljson, db), import(db)', () => {
+    test('restore the same data and hashes', () => {
+      const rljson = Rljson.exampleWithDeepLink;
+      const imported = roundTrip(rljson);
+
+      expect(imported.data).toEqual(rljson.data);
+      expect(imported.data._hash).toBe(rljson.data._hash);
+    });
+
+    test('restore values of all types', () => {
+      const rljson = Rljson.fromJson({
+        values: {
+          _data: [
+            { s: 'a', n: 1.5, b: true, j: { x: [1, 2] }, a: [1, 'x'] },
+            { s: 'b', n: 2, b: false, nullValue: null },
+            { mixed: 5 },
+            { mixed: '5' },
+            { mixed: null },
+            { onlyNull: null },
+          ],
+        },
+        empty: { _data: [] },
+      });
+
+      const imported = roundTrip(rljson);
+      expect(imported.data).toEqual(rljson.data);
+      expect(imported.ls()).toEqual(rljson.ls());
+    });
+
+    test('restore columns', () => {
+      const rljson = Rljson.empty()
+        .createTable('person', { name: { type: 'string' } })
+        .addRow('person', { name: 'Ada' });
+
+      const imported = roundTrip(rljson);
+      expect(imported.data).toEqual(rljson.data);
+      expect(imported.table('person')._columns.name.type).toBe('string');
+    });
+
+    test('keep the foreign key setting of the database', () => {
+      db.pragma('foreign_keys = ON');
+      roundTrip(Rljson.exampleWithLink);
+      expect(db.pragma('foreign_keys', { simple: true })).toBe(1);
+    });
+  });
+
+  suite('export(rljson, db)', () => {
+    test('creates queryable SQL tables', () => {
+      Sqlite.export(Rljson.exampleWithDeepLink, db);
+
+      const rows = db
+        .prepare(
+          'SELECT a.value AS a, d.value AS d FROM a ' +
+            'JOIN b ON a.bRef = b._hash ' +
+            'JOIN c ON b.cRef = c._hash ' +
+            'JOIN d ON c.dRef = d._hash ORDER BY a.value',
+        )
+        .all();
+
+      expect(rows).toEqual([
+        { a: 'a', d: 'd' },
+        { a: 'a0', d: 'd' },
+      ]);
+    });
+
+    test('stores booleans as numbers and objects as JSON', () => {
+      Sqlite.export(
+        Rljson.fromJson({ t: { _data: [{ b: true, j: { x: 1 } }] } }),
+        db,
+      );
+
+      const row: any = db.prepare('SELECT b, j FROM t').get();
+      expect(row.b).toBe(1);
+      expect(JSON.parse(row.j).x).toBe(1);
+    });
+
+    test('creates foreign keys for links', () => {
+      const rljson = Rljson.exampleWithLink.addData({
+        tableA: { _data: [{ nonExistingTableRef: 'x' }] },
+      });
+      Sqlite.export(rljson, db);
+
+      const foreignKeys = db.pragma('foreign_key_list(linkToTableA)') as any[];
+      expect(foreignKeys.map((key) => [key.table, key.from, key.to])).toEqual([
+        ['tableA', 'tableARef', '_hash'],
+      ]);
+
+      expect(db.pragma('foreign_key_list(tableA)')).toEqual([]);
+    });
+
+    test('creates foreign keys for links to declared tables', () => {
+      const rljson = Rljson.empty()
+        .createTable('person', { name: { type: 'string' } })
+        .createTable('book', {
+          authorRef: { type: 'ref', table: 'person' },
+        })
+        .addRow('book', { authorRef: 'x' });
+      Sqlite.export(rljson, db);
+
+      const foreignKeys = db.pragma('foreign_key_list(book)') as any[];
+      expect(foreignKeys.map((key) => [key.table, key.from])).toEqual([
+        ['person', 'authorRef'],
+      ]);
+    });
+
+    test('allows to find broken links', () => {
+      const rljson = Rljson.exampleWithLink.addData({
+        linkToTableA: { _data: [{ tableARef: 'brokenHash' }] },
+      });
+      Sqlite.export(rljson, db);
+
+      expect((db.pragma('foreign_key_check') as any[]).length).toBe(1);
+    });
+  });
+
+  suite('quote(identifier)', () => {
+    test('quotes identifiers', () => {
+      expect(Sqlite.quote('a"b')).toBe('"a""b"');
+    });
+  });
+});
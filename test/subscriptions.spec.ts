@@ -0,0 +1,245 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { setFlagsFromString } from 'node:v8';
+import { runInNewContext } from 'node:vm';
+import { expect, suite, test, vi } from 'vitest';
+
+import { Rljson } from '../src/rljson';
+import { RlchangeEvent } from '../src/subscriptions';
+
+suite('Subscriptions', () => {
+  const record = () => {
+    const events: RlchangeEvent[] = [];
+    return { events, listener: (e: RlchangeEvent) => events.push(e) };
+  };
+
+  suite('subscribe(listener)', () => {
+    test('reports added rows and new hashes', () => {
+      const rljson = Rljson.example;
+      const { events, listener } = record();
+      rljson.subscribe(listener);
+
+      const result = rljson.addData({
+        tableA: { _data: [{ keyA2: 'a2' }] },
+        tableC: { _data: [{ keyC0: 'c0' }] },
+      });
+
+      expect(events.length).toBe(1);
+      const [event] = events;
+      expect(event.rljson).toBe(result);
+      expect(event.added).toEqual({
+        tableA: [
+          result.row('tableA', result.hash({ table: 'tableA', index: 2 })),
+        ],
+        tableC: result.data.tableC._data,
+      });
+      expect(event.tableHashes).toEqual({
+        tableA: result.data.tableA._hash,
+        tableC: result.data.tableC._hash,
+      });
+      expect(event.hash).toBe(result.data._hash);
+      expect(event.hash).not.toBe(rljson.data._hash);
+    });
+
+    test('reports changes of derived instances', () => {
+      const { events, listener } = record();
+      const rljson = Rljson.empty();
+      rljson.subscribe(listener);
+
+      const a = rljson.createTable('person');
+      const b = a
+        .createIndex('person', 'name')
+        .addRow('person', { name: 'Ann' });
+      b.addRow('person', { name: 'Ann' });
+
+      expect(events.map((e) => e.rljson)).toEqual([a, b]);
+      expect(events[0].added).toEqual({ person: [] });
+      expect(events[1].added.person[0].name).toBe('Ann');
+
+      b.removeRows('person', [events[1].added.person[0]._hash!]).addRow(
+        'person',
+        { name: 'Bob' },
+      );
+      expect(events.length).toBe(3);
+    });
+
+    test('does not report changes of parents and siblings', () => {
+      const { events, listener } = record();
+      const base = Rljson.example;
+      const child = base.addRow('tableA', { keyA2: 'a2' });
+      const sibling = base.addRow('tableA', { keyA3: 'a3' });
+      child.subscribe(listener);
+
+      base.addRow('tableA', { keyA4: 'a4' });
+      sibling.addRow('tableA', { keyA5: 'a5' });
+      expect(events).toEqual([]);
+
+      const grandchild = child.addRow('tableA', { keyA6: 'a6' });
+      grandchild.addRow('tableA', { keyA7: 'a7' });
+      expect(events.length).toBe(2);
+    });
+
+    test('reports changes of instances derived after subscribing', () => {
+      const { events, listener } = record();
+      const base = Rljson.example;
+      const before = base.addRow('tableA', { keyA2: 'a2' });
+
+      const unsubscribe = base.subscribe(listener);
+      expect(before.subscriptions.isEmpty).toBe(true);
+      before.addRow('tableA', { keyA3: 'a3' });
+      expect(events).toEqual([]);
+
+      const after = base.addRow('tableA', { keyA3: 'a3' });
+      const grandchild = after.addRow('tableA', { keyA4: 'a4' });
+      grandchild.addRow('tableA', { keyA5: 'a5' });
+      expect(events.length).toBe(3);
+
+      unsubscribe();
+      expect(grandchild.subscriptions.isEmpty).toBe(true);
+      grandchild.addRow('tableA', { keyA6: 'a6' });
+      expect(events.length).toBe(3);
+    });
+
+    test('does not keep ancestors of derived instances in memory', async () => {
+      setFlagsFromString('--expose-gc');
+      const gc = runInNewContext('gc') as () => void;
+
+      const base = Rljson.example;
+      base.subscribe(() => {});
+
+      let rljson = base.addRow('tableA', { keyA2: 'a2' });
+      const first = new WeakRef(rljson.subscriptions);
+      const hash = rljson.hash({ table: 'tableA', index: 2 });
+      for (let i = 0; i < 1000; i++) {
+        rljson = rljson
+          .removeRows('tableA', [hash])
+          .addRow('tableA', { keyA2: 'a2' });
+      }
+
+      // WeakRefs keep their targets until the current job has finished
+      await new Promise((resolve) => setTimeout(resolve));
+      gc();
+
+      expect(first.deref()).toBeUndefined();
+      expect(rljson.subscriptions.isEmpty).toBe(false);
+    });
+
+    test('reports columns added to existing tables', () => {
+      const { events, listener } = record();
+      const rljson = Rljson.example;
+      rljson.subscribe(listener);
+
+      rljson.addData({
+        tableA: {
+          _columns: {
+            keyA0: { type: 'string', nullable: true },
+            keyA1: { type: 'string', nullable: true },
+          },
+          _data: [],
+        },
+      });
+
+      expect(events[0].added).toEqual({ tableA: [] });
+    });
+
+    test('does not report unchanged data', () => {
+      const { events, listener } = record();
+      const rljson = Rljson.example;
+      rljson.subscribe(listener);
+
+      rljson.addData({ tableA: { _data: [{ keyA0: 'a0' }] } });
+      rljson.addRow('tableA', { keyA1: 'a1' });
+      expect(events).toEqual([]);
+    });
+
+    test('returns a function unsubscribing', () => {
+      const { events, listener } = record();
+      const rljson = Rljson.example;
+      const unsubscribe = rljson.subscribe(listener);
+
+      rljson.addRow('tableA', { keyA2: 'a2' });
+      unsubscribe();
+      rljson.addRow('tableA', { keyA3: 'a3' });
+      expect(events.length).toBe(1);
+    });
+
+    test('isolates listeners throwing errors', () => {
+      vi.useFakeTimers();
+      try {
+        const { events, listener } = record();
+        const rljson = Rljson.example;
+        rljson.subscribe(() => {
+          throw new Error('Listener failed');
+        });
+        rljson.subscribe(listener);
+
+        const result = rljson.addRow('tableA', { keyA2: 'a2' });
+        expect(events.map((e) => e.rljson)).toEqual([result]);
+        expect(() => vi.runAllTimers()).toThrow('Listener failed');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    test('allows to unsubscribe while being notified', () => {
+      const rljson = Rljson.example;
+      const calls: string[] = [];
+      const unsubscribe = rljson.subscribe(() => {
+        calls.push('a');
+        unsubscribe();
+      });
+      rljson.subscribe(() => calls.push('b'));
+
+      rljson.addRow('tableA', { keyA2: 'a2' });
+      rljson.addRow('tableA', { keyA3: 'a3' });
+      expect(calls).toEqual(['a', 'b', 'b']);
+    });
+  });
+
+  suite('subscribe(listener, { table })', () => {
+    test('reports changes of the table only', () => {
+      const { events, listener } = record();
+      const rljson = Rljson.example;
+      rljson.subscribe(listener, { table: 'tableB' });
+
+      rljson.addRow('tableA', { keyA2: 'a2' });
+      expect(events.length).toBe(0);
+
+      rljson.addRow('tableB', { keyB2: 'b2' });
+      expect(events.length).toBe(1);
+    });
+  });
+
+  suite('subscribe(listener, { hash })', () => {
+    const row = Rljson.empty().jsonJash.apply({ keyA2: 'a2' });
+
+    test('reports the addition of the row', () => {
+      const { events, listener } = record();
+      const rljson = Rljson.example;
+      rljson.subscribe(listener, { hash: row._hash });
+
+      rljson.addRow('tableA', { keyA3: 'a3' });
+      expect(events.length).toBe(0);
+
+      rljson.addRow('tableB', row);
+      expect(events.length).toBe(1);
+    });
+
+    test('reports the row in the table only', () => {
+      const { events, listener } = record();
+      const rljson = Rljson.example;
+      rljson.subscribe(listener, { table: 'tableA', hash: row._hash });
+
+      rljson.addRow('tableB', row);
+      rljson.addRow('tableA', { keyA3: 'a3' });
+      expect(events.length).toBe(0);
+
+      rljson.addRow('tableA', row);
+      expect(events.length).toBe(1);
+    });
+  });
+});
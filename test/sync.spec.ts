@@ -0,0 +1,171 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { beforeEach, expect, suite, test } from 'vitest';
+
+import { Rljson } from '../src/rljson';
+import { RlsyncMessage, Sync } from '../src/sync';
+
+suite('Sync', () => {
+  let local: Rljson;
+  let remote: Rljson;
+  let sent: RlsyncMessage[];
+
+  // Delivers messages to the remote replica in process
+  const send = async (message: RlsyncMessage) => {
+    sent.push(JSON.parse(JSON.stringify(message)));
+    return JSON.parse(JSON.stringify(Sync.respond(remote, message)));
+  };
+
+  // Rows of pulled tables are sorted by hash
+  const sorted = (rljson: Rljson, tables = Object.keys(rljson.dataIndexed)) =>
+    rljson.sortRows(tables);
+
+  beforeEach(() => {
+    sent = [];
+    local = Rljson.example;
+    remote = Rljson.example;
+  });
+
+  suite('pull(local, send)', () => {
+    test('does nothing when replicas are in sync', async () => {
+      const result = await Sync.pull(local, send);
+
+      expect(result).toBe(local);
+      expect(sent.map((m) => m.type)).toEqual(['root']);
+    });
+
+    test('pulls missing rows of changed tables only', async () => {
+      remote = remote.addData({ tableA: { _data: [{ keyA2: 'a2' }] } });
+      const a2Hash = remote.hash({ table: 'tableA', index: 2 });
+
+      const result = await Sync.pull(local, send);
+
+      expect(result.data).toEqual(sorted(remote, ['tableA']).data);
+      expect(sent).toEqual([
+        { type: 'root', hash: local.data._hash },
+        { type: 'getRowHashes', tables: ['tableA'] },
+        { type: 'getRows', rows: { tableA: [a2Hash] } },
+      ]);
+    });
+
+    test('pulls missing tables including their columns', async () => {
+      remote = remote
+        .createTable('tableC', { keyC0: { type: 'string' } })
+        .createTable('tableD')
+        .addRow('tableC', { keyC0: 'c0' });
+
+      const result = await Sync.pull(Rljson.empty(), send);
+
+      expect(result.data).toEqual(sorted(remote).data);
+      expect(result.table('tableC')._columns.keyC0.type).toBe('string');
+      expect(result.hasTable('tableD')).toBe(true);
+    });
+
+    test('pulls columns declared for existing tables', async () => {
+      remote = remote.addData({
+        tableA: {
+          _columns: {
+            keyA0: { type: 'string', nullable: true },
+            keyA1: { type: 'string', nullable: true },
+          },
+          _data: [],
+        },
+      });
+
+      const result = await Sync.pull(local, send);
+      expect(result.data).toEqual(sorted(remote, ['tableA']).data);
+
+      sent = [];
+      await Sync.pull(result, send);
+      expect(sent.map((m) => m.type)).toEqual(['root']);
+    });
+
+    test('keeps local rows not available on the remote', async () => {
+      local = local.addData({ tableA: { _data: [{ keyA2: 'a2' }] } });
+      remote = remote.addData({ tableB: { _data: [{ keyB2: 'b2' }] } });
+
+      const result = await Sync.pull(local, send);
+      expect(result.table('tableA')._data.length).toBe(3);
+      expect(result.table('tableB')._data.length).toBe(3);
+      expect(result.table('tableA')).toBe(local.table('tableA'));
+    });
+
+    test('stops when the remote has no missing rows', async () => {
+      local = local.addData({ tableA: { _data: [{ keyA2: 'a2' }] } });
+
+      const result = await Sync.pull(local, send);
+      expect(result).toBe(local);
+      expect(sent.map((m) => m.type)).toEqual(['root', 'getRowHashes']);
+    });
+
+    test('syncs both directions when both replicas pull', async () => {
+      local = local.addData({ tableA: { _data: [{ keyA2: 'a2' }] } });
+      remote = remote.addData({ tableA: { _data: [{ keyA3: 'a3' }] } });
+
+      local = await Sync.pull(local, send);
+
+      const pushed = local;
+      remote = await Sync.pull(remote, async (message) =>
+        Sync.respond(pushed, message),
+      );
+
+      expect(local.ls().sort()).toEqual(remote.ls().sort());
+    });
+
+    test('ends with equal hashes when both replicas pulled', async () => {
+      const localBefore = local.addData({
+        tableA: { _data: [{ keyA2: 'a2' }, { keyA4: 'a4' }] },
+      });
+      const remoteBefore = remote.addData({
+        tableA: { _data: [{ keyA3: 'a3' }] },
+      });
+
+      // Both replicas pull at the same time
+      local = await Sync.pull(localBefore, async (message) =>
+        Sync.respond(remoteBefore, message),
+      );
+      remote = await Sync.pull(remoteBefore, async (message) =>
+        Sync.respond(localBefore, message),
+      );
+
+      expect(local.data._hash).toBe(remote.data._hash);
+
+      sent = [];
+      expect(await Sync.pull(local, send)).toBe(local);
+      expect(sent.map((m) => m.type)).toEqual(['root']);
+    });
+  });
+
+  suite('throws', () => {
+    test('when the remote receives an answer', () => {
+      expect(() => Sync.respond(remote, { type: 'inSync' })).toThrow(
+        'Unexpected sync message "inSync".',
+      );
+    });
+
+    test('when a received row was modified', async () => {
+      remote = remote.addData({ tableA: { _data: [{ keyA2: 'a2' }] } });
+      const a2Hash = remote.hash({ table: 'tableA', index: 2 });
+
+      const forge = async (message: RlsyncMessage) => {
+        const answer = await send(message);
+        if (answer.type === 'rows') {
+          answer.tables.tableA._data[0].keyA2 = 'EVIL';
+        }
+        return answer;
+      };
+
+      await expect(Sync.pull(local, forge)).rejects.toThrow(a2Hash);
+    });
+
+    test('when the local replica receives a request', () => {
+      expect(() => Sync.receive(local, Sync.start(local))).toThrow(
+        'Unexpected sync message "root".',
+      );
+    });
+  });
+});
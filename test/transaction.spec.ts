@@ -0,0 +1,144 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { expect, suite, test } from 'vitest';
+
+import { Rljson } from '../src/rljson';
+
+suite('Transaction', () => {
+  const base = Rljson.exampleWithLink;
+  const tableAHash = base.hash({ table: 'tableA', index: 0 });
+
+  suite('commit()', () => {
+    test('applies all changes at once', () => {
+      const changes: string[] = [];
+      const unsubscribe = base.subscribe((e) =>
+        changes.push(...Object.keys(e.added)),
+      );
+
+      const transaction = base
+        .transaction()
+        .createTable('person', { name: { type: 'string' } })
+        .addRow('person', { name: 'Ann' })
+        .addRow('person', { name: 'Ann' })
+        .addRow('tableA', { keyA2: 'a2' })
+        .addRow('linkToTableA', { tableARef: tableAHash, note: 'x' });
+
+      const result = transaction.commit();
+      unsubscribe();
+      expect(changes).toEqual(['person', 'tableA', 'linkToTableA']);
+
+      const expected = base
+        .createTable('person', { name: { type: 'string' } })
+        .addRow('person', { name: 'Ann' })
+        .addRow('tableA', { keyA2: 'a2' })
+        .addRow('linkToTableA', { tableARef: tableAHash, note: 'x' });
+
+      expect(result.data).toEqual(expected.data);
+      expect(base.hasTable('person')).toBe(false);
+    });
+
+    test('allows links to rows added by the transaction', () => {
+      const person = Rljson.empty().jsonJash.apply({ name: 'Ann' });
+
+      const result = base
+        .transaction()
+        .addRow('book', { title: 'Rljson', personRef: person._hash })
+        .createTable('person')
+        .createTable('book')
+        .addRow('person', person)
+        .commit();
+
+      expect(() => result.checkLinks()).not.toThrow();
+      expect(result.select('book', ['title', 'personRef/name'])).toEqual([
+        ['Rljson', 'Ann'],
+      ]);
+    });
+
+    test('returns base for empty transactions', () => {
+      const transaction = base.transaction();
+      expect(transaction.isEmpty).toBe(true);
+      expect(transaction.commit().data).toEqual(base.data);
+    });
+
+    suite('throws and leaves the data unchanged', () => {
+      const fails = (
+        transaction: ReturnType<Rljson['transaction']>,
+        message: string,
+      ) => {
+        const changes: unknown[] = [];
+        const unsubscribe = base.subscribe((e) => changes.push(e));
+
+        expect(() => transaction.commit()).toThrow(message);
+        expect(changes).toEqual([]);
+        expect(base.data).toEqual(Rljson.exampleWithLink.data);
+        unsubscribe();
+      };
+
+      test('when a hash is wrong', () => {
+        fails(
+          base
+            .transaction()
+            .addRow('tableA', { keyA2: 'a2' })
+            .addRow('tableA', { keyA3: 'a3', _hash: 'wrong' }),
+          'Hash "wrong" is wrong.',
+        );
+      });
+
+      test('when a table does not exist', () => {
+        fails(
+          base.transaction().addRow('tableA', { x: 1 }).addRow('tableC', {}),
+          'Table not found: tableC',
+        );
+      });
+
+      test('when a table name is invalid', () => {
+        fails(
+          base.transaction().createTable('my-table'),
+          'Invalid table name: my-table. Only letters and numbers are allowed.',
+        );
+      });
+
+      test('when a row does not match the columns', () => {
+        fails(
+          base
+            .transaction()
+            .createTable('person', { name: { type: 'string' } })
+            .addRow('person', { name: 5 }),
+          'Column "name" in table "person" must be of type "string".',
+        );
+      });
+
+      test('when a link is broken', () => {
+        fails(
+          base
+            .transaction()
+            .addRow('tableA', { keyA2: 'a2' })
+            .addRow('linkToTableA', { tableARef: 'missing' }),
+          'links to not existing item "missing" in table "tableA".',
+        );
+
+        fails(
+          base.transaction().addRow('linkToTableA', { personRef: 'x' }),
+          'links to not existing table "personRef".',
+        );
+      });
+    });
+  });
+
+  suite('rollback()', () => {
+    test('discards all changes', () => {
+      const transaction = base
+        .transaction()
+        .createTable('person')
+        .addRow('tableA', { keyA2: 'a2' });
+
+      transaction.rollback();
+      expect(transaction.isEmpty).toBe(true);
+      expect(transaction.commit().data).toEqual(base.data);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { expect, suite, test } from 'vitest';
+
+import { Rljson } from '../src/rljson';
+import { TypeGenerator } from '../src/type-generator';
+
+suite('TypeGenerator', () => {
+  const library = Rljson.empty()
+    .addData({
+      person: {
+        _data: [{ name: 'Ann', age: 40 }, { name: 'Bob' }],
+      },
+      tag: { _data: [{ name: 'red' }] },
+    })
+    .createTable('book', {
+      title: { type: 'string' },
+      year: { type: 'number', nullable: true },
+      authorRef: { type: 'ref', table: 'person' },
+      tagRefs: { type: 'refs' },
+      details: { type: 'json' },
+      notes: { type: 'json', nullable: true },
+    });
+
+  suite('describe(rljson)', () => {
+    test('returns the observed types of the columns', () => {
+      const rljson = Rljson.fromJson({
+        orderItems: {
+          _data: [
+            { amount: 1, note: null, productRef: 'p0', tagRefs: ['t0'] },
+            { amount: '2', details: { a: 1 }, list: [1], productRef: null },
+            { amount: 3, details: true },
+          ],
+        },
+      });
+
+      expect(TypeGenerator.describe(rljson)).toEqual({
+        orderItems: {
+          name: 'OrderItems',
+          columns: {
+            amount: { types: ['string', 'number'], optional: false },
+            note: { types: ['null'], optional: true },
+            productRef: {
+              types: ['ref', 'null'],
+              optional: true,
+              table: 'product',
+            },
+            tagRefs: { types: ['refs'], optional: true, table: 'tag' },
+            details: { types: ['boolean', 'object'], optional: true },
+            list: { types: ['array'], optional: true },
+          },
+        },
+      });
+    });
+
+    test('prefers declared columns', () => {
+      const rljson = library.addRow('book', {
+        title: 'Rljson',
+        authorRef: 'a',
+        tagRefs: [],
+        details: [],
+        notes: null,
+      });
+
+      expect(TypeGenerator.describe(rljson).book).toEqual({
+        name: 'Book',
+        columns: {
+          title: { types: ['string'], optional: false },
+          year: { types: ['number', 'null'], optional: true },
+          authorRef: { types: ['ref'], optional: false, table: 'person' },
+          tagRefs: { types: ['refs'], optional: false, table: 'tag' },
+          details: { types: ['array'], optional: false },
+          notes: { types: ['object', 'array', 'null'], optional: true },
+        },
+      });
+    });
+
+    test('creates unique interface names', () => {
+      const rljson = Rljson.empty()
+        .createTable('person')
+        .createTable('Person')
+        .createTable('Person2');
+
+      expect(
+        Object.values(TypeGenerator.describe(rljson)).map(({ name }) => name),
+      ).toEqual(['Person', 'Person2', 'Person22']);
+    });
+
+    test('avoids the names of the schema, Ref and Refs', () => {
+      const rljson = Rljson.empty()
+        .createTable('schema')
+        .createTable('ref')
+        .createTable('refs')
+        .createTable('db');
+
+      const names = (options = {}) =>
+        Object.values(TypeGenerator.describe(rljson, options)).map(
+          ({ name }) => name,
+        );
+
+      expect(names()).toEqual(['Schema2', 'Ref2', 'Refs2', 'Db']);
+      expect(names({ schemaName: 'Db' })).toEqual([
+        'Schema',
+        'Ref2',
+        'Refs2',
+        'Db2',
+      ]);
+    });
+  });
+
+  suite('generate(rljson, options)', () => {
+    test('writes interfaces and a schema', () => {
+      expect(TypeGenerator.generate(library)).toBe(
+        [
+          "import type { Ref, Refs } from 'rljson';",
+          '',
+          'export interface Person {',
+          '  name: string;',
+          '  age?: number;',
+          '}',
+          '',
+          'export interface Tag {',
+          '  name: string;',
+          '}',
+          '',
+          'export interface Book {',
+          '  title: string;',
+          '  year?: number | null;',
+          "  authorRef: Ref<'person'>;",
+          "  tagRefs: Refs<'tag'>;",
+          '  details: Record<string, any> | any[];',
+          '  notes?: Record<string, any> | any[] | null;',
+          '}',
+          '',
+          'export type Schema = {',
+          '  person: Person;',
+          '  tag: Tag;',
+          '  book: Book;',
+          '};',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    test('quotes columns and imports only used link types', () => {
+      const rljson = Rljson.fromJson({
+        items: { _data: [{ 'a-b': 1, "x'Ref": 'h' }] },
+      });
+
+      expect(
+        TypeGenerator.generate(rljson, {
+          schemaName: 'Db',
+          importFrom: '../rljson',
+        }),
+      ).toBe(
+        [
+          "import type { Ref } from '../rljson';",
+          '',
+          'export interface Items {',
+          "  'a-b': number;",
+          "  'x\\'Ref': Ref<'x\\''>;",
+          '}',
+          '',
+          'export type Db = {',
+          '  items: Items;',
+          '};',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    test('writes no interface named like the schema', () => {
+      const rljson = Rljson.empty().createTable('schema');
+      expect(TypeGenerator.generate(rljson)).toBe(
+        [
+          'export interface Schema2 {',
+          '}',
+          '',
+          'export type Schema = {',
+          '  schema: Schema2;',
+          '};',
+          '',
+        ].join('\n'),
+      );
+    });
+
+    test('writes no import without links', () => {
+      expect(TypeGenerator.generate(Rljson.example)).toMatch(
+        /^export interface TableA {\n {2}keyA0\?: string;\n {2}keyA1\?: string;\n}/,
+      );
+    });
+  });
+});
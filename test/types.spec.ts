@@ -0,0 +1,182 @@
+// @license
+// Copyright (c) 2019 - 2024 Dr. Gabriel Gatzsche. All Rights Reserved.
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { expect, expectTypeOf, suite, test } from 'vitest';
+
+import { Rljson, Rlmap } from '../src/rljson';
+import { Ref, Refs } from '../src/types';
+
+interface Person {
+  name: string;
+  age?: number;
+}
+
+interface Tag {
+  name: string;
+}
+
+interface Book {
+  title: string;
+  authorRef: Ref<'person'>;
+  editorRef?: Ref<'person'> | null;
+  tagRefs: Refs<'tag'>;
+}
+
+type Library = { person: Person; tag: Tag; book: Book };
+
+suite('Rljson<Schema>', () => {
+  const person = Rljson.empty().addData({
+    person: { _data: [{ name: 'Ann', age: 40 }] },
+    tag: { _data: [{ name: 'red' }, { name: 'green' }] },
+  });
+
+  const authorRef = person.hash({ table: 'person', index: 0 });
+  const tagRefs = [0, 1].map((index) => person.hash({ table: 'tag', index }));
+
+  const db = Rljson.fromJson<Library>({
+    ...person.data,
+    book: {
+      _columns: {
+        title: { type: 'string' },
+        authorRef: { type: 'ref', table: 'person' },
+        editorRef: { type: 'ref', table: 'person', nullable: true },
+        tagRefs: { type: 'refs' },
+      },
+      _data: [{ title: 'Rljson', authorRef, tagRefs }],
+    },
+  });
+
+  const itemHash = db.hash({ table: 'book', index: 0 });
+
+  test('row() returns typed rows', () => {
+    const book = db.row('book', itemHash);
+    expectTypeOf(book.title).toEqualTypeOf<string>();
+    expectTypeOf(book._hash).toEqualTypeOf<string>();
+    expect(book.title).toBe('Rljson');
+
+    // @ts-expect-error: unknown table
+    expect(() => db.row('books', itemHash)).toThrow();
+  });
+
+  test('items() returns typed rows', () => {
+    const people = db.items({ table: 'person' });
+    expectTypeOf(people[0].age).toEqualTypeOf<number | undefined>();
+    expect(people[0].age).toBe(40);
+  });
+
+  test('value() follows typed links', () => {
+    const name = db.value({
+      table: 'book',
+      itemHash,
+      followLink: ['authorRef', 'name'],
+    });
+    expectTypeOf(name).toEqualTypeOf<string>();
+    expect(name).toBe('Ann');
+
+    const author = db.value({
+      table: 'book',
+      itemHash,
+      followLink: ['authorRef'],
+    });
+    expectTypeOf(author).toEqualTypeOf<Person & { _hash: string }>();
+    expect(author.name).toBe('Ann');
+
+    const editor = db.value({
+      table: 'book',
+      itemHash,
+      followLink: ['editorRef', 'name'],
+    });
+    expectTypeOf(editor).toEqualTypeOf<string | null>();
+    expect(editor).toBeNull();
+
+    const tags = db.value({
+      table: 'book',
+      itemHash,
+      followLink: ['tagRefs', 'name'],
+    });
+    expectTypeOf(tags).toEqualTypeOf<string[]>();
+    expect(tags).toEqual(['red', 'green']);
+
+    const book = db.value({ table: 'book', itemHash });
+    expectTypeOf(book).toEqualTypeOf<Book & { _hash: string }>();
+
+    expect(() =>
+      db.value({
+        table: 'book',
+        itemHash,
+        // @ts-expect-error: title is not a link
+        followLink: ['title', 'name'],
+      }),
+    ).toThrow();
+
+    expect(() =>
+      db.value({
+        table: 'book',
+        itemHash,
+        // @ts-expect-error: person has no column "title"
+        followLink: ['authorRef', 'title'],
+      }),
+    ).toThrow();
+  });
+
+  test('select() infers the types of columns', () => {
+    const rows = db.select('book', ['title', 'authorRef/name', 'tagRefs/name']);
+    expectTypeOf(rows).toEqualTypeOf<[string, string, string[]][]>();
+    expect(rows).toEqual([['Rljson', 'Ann', ['red', 'green']]]);
+
+    const authors = db.select('book', ['authorRef']);
+    expectTypeOf(authors).toEqualTypeOf<[Person & { _hash: string }][]>();
+    expect(authors).toEqual([[db.row('person', authorRef)]]);
+
+    // @ts-expect-error: unknown column
+    expect(() => db.select('book', ['authorRef/title'])).toThrow();
+  });
+
+  test('mutations keep the schema', () => {
+    const updated = db.addRow('person', { name: 'Bob' });
+    expectTypeOf(updated).toEqualTypeOf<Rljson<Library>>();
+
+    const committed = db
+      .transaction()
+      .addRow('person', { name: 'Cy' })
+      .commit();
+    expectTypeOf(committed).toEqualTypeOf<Rljson<Library>>();
+    expect(committed.items({ table: 'person' }).length).toBe(2);
+  });
+
+  test('mutations check table and column names', () => {
+    // @ts-expect-error: unknown table
+    expect(() => db.addRow('persn', { name: 'Bob' })).toThrow();
+
+    // @ts-expect-error: unknown column
+    db.addRow('person', { nme: 'Bob' });
+
+    // @ts-expect-error: wrong type of column
+    db.addRow('person', { name: 1 });
+
+    // @ts-expect-error: unknown table
+    expect(() => db.removeRows('persn', [authorRef])).toThrow();
+    expect(db.removeRows('book', [itemHash]).items({ table: 'book' })).toEqual(
+      [],
+    );
+
+    // @ts-expect-error: unknown table
+    db.transaction().addRow('persn', { name: 'Bob' });
+
+    // @ts-expect-error: unknown table
+    db.createTable('persn');
+  });
+
+  test('untyped instances accept any table and column', () => {
+    const rljson = Rljson.example;
+    const itemHash = rljson.hash({ table: 'tableA', index: 0 });
+    expectTypeOf(rljson.row('tableA', itemHash)).toEqualTypeOf<Rlmap>();
+    expectTypeOf(
+      rljson.value({ table: 'tableA', itemHash, followLink: ['keyA0'] }),
+    ).toBeAny();
+    expectTypeOf(rljson.select('tableA', ['keyA0'])).toEqualTypeOf<any[][]>();
+  });
+});
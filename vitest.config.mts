@@ -11,13 +11,20 @@ export default defineConfig(({ mode }) => {
       setupFiles: ['./test/test-setup.ts'],
       include: ['**/test/*.spec.ts'],
 
+      // Compile time checks of the schema types
+      typecheck: {
+        enabled: true,
+        include: ['test/types.spec.ts'],
+        tsconfig: './tsconfig.test.json',
+      },
+
       reporters: ['default'],
       coverage: {
         enabled: true,
         provider: 'v8', // "istanbul" or "v8"
         reporter: ['text', 'json', 'html'],
         include: ['src/**/*.ts'],
-        exclude: ['src/index.ts'],
+        exclude: ['src/index.ts', 'src/types.ts'],
         thresholds: {
           global: {
             statements: 100,